@@ -0,0 +1,66 @@
+// App-shell cache. Attendance data is cached in IndexedDB by the app itself,
+// so API requests are never served from here.
+const CACHE = "kumi-shell-v2";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+// The build's hashed entry script, stylesheet and preloaded chunks, as linked
+// from index.html. Chunks loaded on demand (e.g. export) are cached on use.
+function entryAssets(html) {
+  const links = html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g);
+  return [...new Set([...links].map((match) => match[1]))];
+}
+
+async function precache() {
+  const cache = await caches.open(CACHE);
+  const response = await fetch("/index.html", { cache: "no-cache" });
+  if (!response.ok) throw new Error(`index.html: ${response.status}`);
+  const html = await response.clone().text();
+  await cache.addAll([...SHELL, ...entryAssets(html)]);
+  await cache.put("/index.html", response);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache());
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(() => caches.match("/index.html"))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
@@ -1,7 +1,76 @@
-import { useEffect, useMemo, useState, type FormEvent } from "react";
-import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
 
+import {
+  createApiClient,
+  isAbortError,
+  type DateChange,
+} from "@/lib/api";
+import {
+  notificationFailures,
+  replaceRecord,
+  statusCounts,
+  summarizeByDay,
+  toCentreTime,
+  upsertRecord,
+} from "@/lib/attendance";
+import {
+  formatRange,
+  isInRange,
+  presetRange,
+  todayInCentre,
+  type DateRange,
+} from "@/lib/date-range";
+import { DEFAULT_DIGEST_SETTINGS } from "@/lib/digest";
+import { intlLocale, type MessageKey } from "@/lib/i18n";
+import {
+  clearResponseCache,
+  responseCache,
+  writeQueue,
+} from "@/lib/offline-store";
+import {
+  failedReasons,
+  filterRecords,
+  isFilterActive,
+} from "@/lib/record-filter";
+import { can, idleTimeoutMinutes, roleLabels } from "@/lib/roles";
+import { expectedButAbsent, rosterFlags } from "@/lib/roster";
 import { supabase } from "@/lib/supabase";
+import { resolveTimeZone } from "@/lib/timezone";
+import type { AttendanceDate, AttendanceRecord } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import {
+  useRealtimeRecords,
+  type RealtimeStatus,
+} from "@/hooks/use-realtime-records";
+import { useAttendanceAlerts } from "@/hooks/use-attendance-alerts";
+import { useAuth } from "@/hooks/use-auth";
+import { useCentres } from "@/hooks/use-centres";
+import { useDigest } from "@/hooks/use-digest";
+import { createI18n, I18nContext } from "@/hooks/use-i18n";
+import { useIdleTimer } from "@/hooks/use-idle-timer";
+import { useLocale } from "@/hooks/use-locale";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { useTimeBuckets } from "@/hooks/use-time-buckets";
+import { useRecordCorrections } from "@/hooks/use-record-corrections";
+import { useRoster } from "@/hooks/use-roster";
+import { useUrlState } from "@/hooks/use-url-state";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,441 +80,670 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+import { AccountManager } from "@/components/account-manager";
+import { AlertsPanel } from "@/components/alerts-panel";
+import { AttendanceAnalytics } from "@/components/attendance-analytics";
+import { attendanceColumns } from "@/components/attendance-columns";
+import { AuditLog } from "@/components/audit-log";
+import { CentreComparison } from "@/components/centre-comparison";
+import { CheckInStation } from "@/components/check-in-station";
+import { CloseDayDialog } from "@/components/close-day-dialog";
+import { DataTable } from "@/components/data-table";
+import {
+  DayActivity,
+  type DayActivityEntry,
+} from "@/components/day-activity";
+import { DigestSettingsCard } from "@/components/digest-settings";
+import { ExpectedStudents } from "@/components/expected-students";
+import { ExportDialog } from "@/components/export-dialog";
+import { KioskDevices } from "@/components/kiosk-devices";
+import { LanguageSelect } from "@/components/language-select";
+import { MfaChallenge } from "@/components/mfa-challenge";
+import { MfaSettings } from "@/components/mfa-settings";
+import { NotificationTriage } from "@/components/notification-triage";
+import { PasswordRecovery } from "@/components/password-recovery";
+import { RecordFilterBar } from "@/components/record-filter-bar";
+import { RecordTimeEditor } from "@/components/record-time-editor";
+import { ReopenDateDialog } from "@/components/reopen-date-dialog";
+import { SignInCard } from "@/components/sign-in-card";
+import { StudentProfile } from "@/components/student-profile";
+import { StudentRoster } from "@/components/student-roster";
+import { TimeSpentChart } from "@/components/time-spent-chart";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Toast } from "@/components/ui/toast";
 
-type AttendanceRecord = {
-  id: number;
-  student_id: number;
-  student_name: string;
-  status: string;
-  parent_notified: string | null;
-  failed_reason?: string | null;
-  checkin_time: string | null;
-  checkout_time: string | null;
-  time_spent: string | number | null;
-  date: string | null;
-};
-
-type AttendanceDate = {
-  id: number;
-  date: string;
-  created_at: string;
+const realtimeStatusLabels: Record<RealtimeStatus, MessageKey> = {
+  connecting: "realtime.connecting",
+  live: "realtime.live",
+  polling: "realtime.polling",
 };
 
-const API_BASE = import.meta.env.VITE_API_BASE as string;
-
-function parseMinutes(value: string | number | null): number {
-  if (value === null || value === undefined) return 0;
-  if (typeof value === "number") return value;
-  const str = String(value).toLowerCase();
-  if (str.includes("h")) {
-    const match = str.match(/(\d+)h\s*(\d+)?m?/);
-    if (!match) return 0;
-    const h = Number(match[1] || 0);
-    const m = Number(match[2] || 0);
-    return h * 60 + m;
-  }
-  const num = Number(str.replace(/[^0-9]/g, ""));
-  return Number.isNaN(num) ? 0 : num;
-}
-
-function formatDateTime(value: string | null) {
-  if (!value) return "-";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return value;
-  return date.toLocaleString("en-SG", {
-    timeZone: "Asia/Singapore",
-    year: "numeric",
-    month: "short",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-}
-
 export default function App() {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const {
+    stage: authStage,
+    token: sessionToken,
+    role,
+    accountId,
+    signedInAt,
+    refresh: refreshSession,
+  } = useAuth();
+  const [locale, setLocale] = useLocale(accountId);
+  const [signInNotice, setSignInNotice] = useState<MessageKey | null>(null);
+  const [showMfaSettings, setShowMfaSettings] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dates, setDates] = useState<AttendanceDate[]>([]);
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [view, updateView] = useUrlState();
   const [currentRecords, setCurrentRecords] = useState<AttendanceRecord[]>([]);
   const [historyRecords, setHistoryRecords] = useState<AttendanceRecord[]>([]);
-  const [currentSearch, setCurrentSearch] = useState("");
-  const [currentStatusFilter, setCurrentStatusFilter] = useState("all");
-  const [currentNotifiedFilter, setCurrentNotifiedFilter] = useState("all");
+  const [exportDialog, setExportDialog] = useState<{
+    range: DateRange | null;
+  } | null>(null);
+  const [editingRecord, setEditingRecord] = useState<AttendanceRecord | null>(
+    null
+  );
+  const [closingDay, setClosingDay] = useState(false);
+  const [reopening, setReopening] = useState<AttendanceDate | null>(null);
+  const [dayActivity, setDayActivity] = useState<DayActivityEntry[]>([]);
+  const [profileStudent, setProfileStudent] = useState<{
+    id: number;
+    name: string;
+  } | null>(null);
+
+  const historyRange = useMemo<DateRange | null>(
+    () => (view.from && view.to ? { from: view.from, to: view.to } : null),
+    [view.from, view.to]
+  );
+
+  const setHistoryRange = useCallback(
+    (range: DateRange | null) =>
+      updateView({ from: range?.from ?? null, to: range?.to ?? null }),
+    [updateView]
+  );
+
+  const online = useOnlineStatus();
+  const [timeBuckets, setTimeBuckets] = useTimeBuckets(accountId);
+  const [staleSince, setStaleSince] = useState<number | null>(null);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data }) => {
-      setSessionToken(data.session?.access_token ?? null);
-    });
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSessionToken(session?.access_token ?? null);
-    });
-    return () => subscription.unsubscribe();
-  }, []);
+    document.documentElement.lang = intlLocale(locale);
+  }, [locale]);
 
-  const fetchWithAuth = async (path: string) => {
-    if (!sessionToken) throw new Error("Missing session token");
-    const res = await fetch(`${API_BASE}${path}`, {
-      headers: {
-        Authorization: `Bearer ${sessionToken}`,
-        "Content-Type": "application/json",
-      },
-    });
-    const json = await res.json();
-    if (!res.ok || json?.error) {
-      throw new Error(json?.error || "Request failed");
-    }
-    return json;
-  };
+  /** `notice` explains an automatic sign-out on the sign-in card. */
+  const signOut = useCallback(
+    async (notice: MessageKey | null) => {
+      await supabase.auth.signOut();
+      await clearResponseCache().catch(() => undefined);
+      setSignInNotice(notice);
+      setError(null);
+      setStaleSince(null);
+      setHistoryRange(null);
+      setProfileStudent(null);
+      setEditingRecord(null);
+      setExportDialog(null);
+      setClosingDay(false);
+      setReopening(null);
+      setDayActivity([]);
+      setShowMfaSettings(false);
+      setCurrentRecords([]);
+      setHistoryRecords([]);
+    },
+    [setHistoryRange]
+  );
 
-  const loadCurrent = async () => {
-    const json = await fetchWithAuth("/api/db/records/current");
-    setCurrentRecords(json.records || []);
-  };
+  const renewToken = useCallback(async () => {
+    const token = await refreshSession();
+    if (!token) signOut("session.expired");
+    return token;
+  }, [refreshSession, signOut]);
 
-  const loadDates = async () => {
-    const json = await fetchWithAuth("/api/db/records/dates");
-    setDates(json.dates || []);
-  };
+  const accountApi = useMemo(
+    () =>
+      sessionToken
+        ? createApiClient({
+            token: sessionToken,
+            role,
+            cache: responseCache,
+            queue: writeQueue,
+            accountId: accountId ?? undefined,
+            refreshToken: renewToken,
+          })
+        : null,
+    [sessionToken, role, accountId, renewToken]
+  );
 
-  const loadByDate = async (date: string) => {
-    const json = await fetchWithAuth(`/api/db/records/by-date?date=${date}`);
-    setHistoryRecords(json.records || []);
-  };
+  const {
+    centres,
+    centre,
+    selectCentre,
+    ready: centresReady,
+    error: centresError,
+  } = useCentres(accountApi);
+  const centreId = centre?.id ?? null;
+  const timeZone = resolveTimeZone(centre?.time_zone);
+  const i18n = useMemo(
+    () => createI18n(locale, setLocale, timeZone),
+    [locale, setLocale, timeZone]
+  );
+  const { t } = i18n;
+
+  const api = useMemo(
+    () =>
+      sessionToken && centresReady
+        ? createApiClient({
+            token: sessionToken,
+            role,
+            cache: responseCache,
+            queue: writeQueue,
+            onStale: setStaleSince,
+            centreId: centreId ?? undefined,
+            accountId: accountId ?? undefined,
+            refreshToken: renewToken,
+          })
+        : null,
+    [sessionToken, role, centresReady, centreId, accountId, renewToken]
+  );
+
+  const loggedSignIn = useRef<number | null>(null);
 
   useEffect(() => {
-    if (!sessionToken) return;
+    if (!api || !signedInAt || loggedSignIn.current === signedInAt) return;
+    loggedSignIn.current = signedInAt;
+    api.logEvent({ action: "sign_in" });
+  }, [api, signedInAt]);
+
+  const loadCurrent = useCallback(async () => {
+    if (!api) return;
+    setCurrentRecords(await api.getCurrentRecords());
+  }, [api]);
+
+  const loadDates = useCallback(async () => {
+    if (!api) return;
+    setDates(await api.getDates());
+  }, [api]);
+
+  useEffect(() => {
+    if (!api) return;
     setLoading(true);
     setError(null);
     Promise.all([loadCurrent(), loadDates()])
       .catch((err) => setError(err.message))
       .finally(() => setLoading(false));
-  }, [sessionToken]);
+  }, [api, loadCurrent, loadDates]);
+
+  useEffect(() => {
+    if (!api || !online) return;
+    api
+      .flushQueue()
+      .then(({ replayed, rejected }) => {
+        if (rejected > 0) {
+          setError(t("offline.rejected", { count: rejected }));
+        }
+        if (replayed + rejected > 0) return loadCurrent();
+      })
+      .catch(() => undefined);
+  }, [api, online, loadCurrent, t]);
+
+  const { status: realtimeStatus, changedIds } = useRealtimeRecords(
+    Boolean(api),
+    centreId,
+    setCurrentRecords,
+    loadCurrent
+  );
+
+  const { checkIn, checkOut, editTimes, toast, undo, dismissToast } =
+    useRecordCorrections(api, setCurrentRecords, loadCurrent, t);
+
+  const {
+    alerts,
+    acknowledge,
+    closingTime,
+    setClosingTime,
+    notificationPermission,
+    requestPermission,
+  } = useAttendanceAlerts(api, dates, currentRecords, i18n);
+
+  const digest = useDigest(
+    can(role, "configure_digest") ? api : null,
+    centreId,
+    timeZone,
+    locale,
+    currentRecords,
+    timeBuckets
+  );
+
+  const {
+    students,
+    setStudents,
+    error: rosterError,
+  } = useRoster(api);
+
+  const idleMinutes = sessionToken ? idleTimeoutMinutes[role] : null;
+  const idle = useIdleTimer(
+    idleMinutes === null ? null : idleMinutes * 60000,
+    async () => {
+      // Anything still queued stays on the device for this account.
+      await api?.flushQueue().catch(() => undefined);
+      await api?.logEvent({ action: "sign_out", after: { reason: "idle" } });
+      signOut("session.idleSignedOut");
+    }
+  );
+
+  const currentRosterFlags = useMemo(
+    () => rosterFlags(students, currentRecords),
+    [students, currentRecords]
+  );
+
+  const absentStudents = useMemo(
+    () => expectedButAbsent(students, currentRecords, todayInCentre(timeZone)),
+    [students, currentRecords, timeZone]
+  );
 
   useEffect(() => {
-    if (!sessionToken || !selectedDate) return;
+    if (!api || !historyRange) return;
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
-    loadByDate(selectedDate)
-      .catch((err) => setError(err.message))
-      .finally(() => setLoading(false));
-  }, [selectedDate, sessionToken]);
-
-  const filteredCurrentRecords = useMemo(() => {
-    return currentRecords.filter((row) => {
-      const matchesSearch = row.student_name
-        .toLowerCase()
-        .includes(currentSearch.toLowerCase());
-      const matchesStatus =
-        currentStatusFilter === "all" || row.status === currentStatusFilter;
-      const notifiedStatus = (row.parent_notified || "")
-        .toString()
-        .toUpperCase();
-      const isNotified = ["SENT", "DELIVERED", "READ", "PLAYED"].includes(
-        notifiedStatus
-      );
-      const matchesNotified =
-        currentNotifiedFilter === "all" ||
-        (currentNotifiedFilter === "yes" && isNotified) ||
-        (currentNotifiedFilter === "no" && !isNotified);
-      return matchesSearch && matchesStatus && matchesNotified;
-    });
-  }, [currentRecords, currentSearch, currentStatusFilter, currentNotifiedFilter]);
+    api
+      .getRecordsInRange(historyRange, controller.signal)
+      .then(setHistoryRecords)
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+    // `dates` changes when a day is archived or reopened; reload then too.
+  }, [api, dates, historyRange]);
+
+  const filteredCurrentRecords = useMemo(
+    () => filterRecords(currentRecords, view, timeZone),
+    [currentRecords, view, timeZone]
+  );
+
+  const filteredHistoryRecords = useMemo(
+    () => filterRecords(historyRecords, view, timeZone),
+    [historyRecords, view, timeZone]
+  );
+
+  const filterReasons = useMemo(
+    () => failedReasons([...currentRecords, ...historyRecords]),
+    [currentRecords, historyRecords]
+  );
 
   const statusChartData = useMemo(() => {
-    const source = selectedDate ? historyRecords : filteredCurrentRecords;
-    const counts = source.reduce(
-      (acc, row) => {
-        if (row.status === "checked_in") acc.checkedIn += 1;
-        if (row.status === "checked_out") acc.checkedOut += 1;
-        const notifiedStatus = (row.parent_notified || "")
-          .toString()
-          .toUpperCase();
-        if (["SENT", "DELIVERED", "READ", "PLAYED"].includes(notifiedStatus)) {
-          acc.notified += 1;
-        }
-        return acc;
-      },
-      { checkedIn: 0, checkedOut: 0, notified: 0 }
-    );
+    const counts = statusCounts(filteredCurrentRecords);
     return [
-      { name: "Checked In", value: counts.checkedIn },
-      { name: "Checked Out", value: counts.checkedOut },
-      { name: "Notified", value: counts.notified },
-    ];
-  }, [currentRecords, historyRecords, selectedDate]);
-
-  const timeChartData = useMemo(() => {
-    const source = selectedDate ? historyRecords : filteredCurrentRecords;
-    const buckets = [
-      { label: "0-15", min: 0, max: 15 },
-      { label: "16-30", min: 16, max: 30 },
-      { label: "31-45", min: 31, max: 45 },
-      { label: "46-60", min: 46, max: 60 },
-      { label: "60+", min: 61, max: Infinity },
+      { name: t("chart.checkedIn"), value: counts.checkedIn },
+      { name: t("chart.checkedOut"), value: counts.checkedOut },
+      { name: t("chart.notified"), value: counts.notified },
     ];
+  }, [filteredCurrentRecords, t]);
 
-    const counts = buckets.map((b) => ({ name: b.label, value: 0 }));
+  const historyDailyData = useMemo(
+    () => summarizeByDay(filteredHistoryRecords),
+    [filteredHistoryRecords]
+  );
 
-    source.forEach((row) => {
-      const minutes = parseMinutes(row.time_spent);
-      const idx = buckets.findIndex(
-        (b) => minutes >= b.min && minutes <= b.max
-      );
-      if (idx >= 0) counts[idx].value += 1;
+  const triageRecords = useMemo(() => {
+    const seen = new Set<number>();
+    return [...currentRecords, ...historyRecords].filter((row) => {
+      if (seen.has(row.id)) return false;
+      seen.add(row.id);
+      return true;
     });
+  }, [currentRecords, historyRecords]);
 
-    return counts;
-  }, [filteredCurrentRecords, historyRecords, selectedDate]);
+  const pendingNotificationCount = useMemo(
+    () => notificationFailures(triageRecords).length,
+    [triageRecords]
+  );
 
-  const handleSignIn = async (event: FormEvent) => {
-    event.preventDefault();
-    setLoading(true);
-    setError(null);
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-    if (error) setError(error.message);
-    setLoading(false);
+  const handleScanRecord = useCallback((record: AttendanceRecord) => {
+    setCurrentRecords((prev) => upsertRecord(prev, record));
+  }, []);
+
+  const handleRecordUpdated = useCallback((record: AttendanceRecord) => {
+    setCurrentRecords((prev) => replaceRecord(prev, record));
+    setHistoryRecords((prev) => replaceRecord(prev, record));
+  }, []);
+
+  /** Day-level changes move records between tables, so reload both. */
+  const handleDayChanged = (label: string, change: DateChange) => {
+    setDayActivity((prev) => [{ label, audit: change.audit }, ...prev]);
+    Promise.all([loadCurrent(), loadDates()]).catch((err) =>
+      setError(err.message)
+    );
   };
 
   const handleSignOut = async () => {
-    await supabase.auth.signOut();
-    setSelectedDate(null);
-    setCurrentRecords([]);
-    setHistoryRecords([]);
+    if (api) {
+      await api.flushQueue().catch(() => undefined);
+      const pending = await api.pendingWrites().catch(() => 0);
+      if (
+        pending > 0 &&
+        !window.confirm(t("offline.pendingSignOut", { count: pending }))
+      ) {
+        return;
+      }
+      await api.logEvent({ action: "sign_out" });
+    }
+    signOut(null);
   };
 
-  const downloadHistoryCsv = () => {
-    if (!selectedDate || historyRecords.length === 0) return;
-
-    const headers = [
-      "student_name",
-      "status",
-      "parent_notified",
-      "failed_reason",
-      "time_spent",
-      "checkin_time",
-      "checkout_time",
-      "date",
-    ];
+  const closeProfile = useCallback(() => setProfileStudent(null), []);
 
-    const rows = historyRecords.map((row) => [
-      row.student_name,
-      row.status,
-      row.parent_notified ?? "",
-      row.failed_reason ?? "",
-      row.time_spent ?? "",
-      formatDateTime(row.checkin_time),
-      formatDateTime(row.checkout_time),
-      row.date ?? "",
-    ]);
-
-    const csv = [headers, ...rows]
-      .map((line) =>
-        line
-          .map((value) => {
-            const text = String(value).replace(/"/g, '""');
-            return `"${text}"`;
-          })
-          .join(",")
-      )
-      .join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `attendance_${selectedDate}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  };
+  const canViewHistory = can(role, "view_history");
+  const canCorrect = can(role, "correct_records");
+  const showFailureReasons = can(role, "view_failure_reasons");
+  const showComparison = can(role, "compare_centres") && centres.length > 1;
+  const canArchive = can(role, "archive_days");
+  const selectedDate =
+    historyRange && historyRange.from === historyRange.to
+      ? dates.find((item) => item.date === historyRange.from) ?? null
+      : null;
+  const historyCountLabel = isFilterActive(view)
+    ? t("history.filteredCount", {
+        shown: i18n.formatNumber(filteredHistoryRecords.length),
+        total: i18n.formatNumber(historyRecords.length),
+      })
+    : t("history.recordCount", {
+        count: i18n.formatNumber(historyRecords.length),
+      });
 
-  if (!sessionToken) {
-    return (
-      <div className="flex min-h-screen items-center justify-center p-6">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle>Kumon Attendance Dashboard</CardTitle>
-            <CardDescription>Sign in to view attendance data.</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form className="space-y-4" onSubmit={handleSignIn}>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-slate-700">
-                  Email
-                </label>
-                <input
-                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-slate-700">
-                  Password
-                </label>
-                <input
-                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                />
+  const formatChartValue = (item: { value?: unknown }) =>
+    typeof item.value === "number"
+      ? i18n.formatNumber(item.value, { maximumFractionDigits: 1 })
+      : String(item.value ?? "");
+
+  const openProfile = useCallback(
+    (row: AttendanceRecord) =>
+      setProfileStudent({ id: row.student_id, name: row.student_name }),
+    []
+  );
+
+  const currentColumns = useMemo(
+    () =>
+      attendanceColumns({
+        i18n,
+        showFailureReason: showFailureReasons,
+        onStudentClick: canViewHistory ? openProfile : undefined,
+        rosterFlags: currentRosterFlags,
+        actions: canCorrect
+          ? (row) => (
+              <div className="flex justify-end gap-2">
+                {row.status === "checked_in" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => checkOut(row)}
+                  >
+                    {t("action.checkOut")}
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => checkIn(row)}
+                  >
+                    {t("action.checkIn")}
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditingRecord(row)}
+                >
+                  {t("action.edit")}
+                </Button>
               </div>
-              {error && <p className="text-sm text-red-600">{error}</p>}
-              <Button type="submit" className="w-full" disabled={loading}>
-                {loading ? "Signing in..." : "Sign In"}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-      </div>
+            )
+          : undefined,
+      }),
+    [
+      i18n,
+      t,
+      showFailureReasons,
+      canViewHistory,
+      canCorrect,
+      currentRosterFlags,
+      openProfile,
+      checkIn,
+      checkOut,
+    ]
+  );
+
+  const historyColumns = useMemo(
+    () =>
+      attendanceColumns({ i18n, showDate: true, onStudentClick: openProfile }),
+    [i18n, openProfile]
+  );
+  const allowedTabs = [
+    "current",
+    ...(canViewHistory ? ["history"] : []),
+    ...(can(role, "triage_notifications") ? ["notifications"] : []),
+    ...(can(role, "manage_students") ? ["students"] : []),
+    ...(can(role, "manage_accounts") ? ["accounts"] : []),
+    ...(showComparison ? ["centres"] : []),
+    ...(can(role, "view_analytics") ? ["analytics"] : []),
+    ...(can(role, "view_audit") ? ["audit"] : []),
+    ...(can(role, "run_station") ? ["station"] : []),
+  ];
+  const activeTab = allowedTabs.includes(view.tab) ? view.tab : "current";
+
+  const withI18n = (content: ReactNode) => (
+    <I18nContext.Provider value={i18n}>{content}</I18nContext.Provider>
+  );
+
+  if (authStage === "recovery") return withI18n(<PasswordRecovery />);
+
+  if (authStage === "mfa") {
+    return withI18n(<MfaChallenge onCancel={handleSignOut} />);
+  }
+
+  if (!sessionToken) {
+    return withI18n(
+      <SignInCard notice={signInNotice && t(signInNotice)} />
     );
   }
 
-  return (
+  return withI18n(
     <div className="min-h-screen p-6">
       <div className="mx-auto flex max-w-7xl flex-col gap-6">
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-semibold text-slate-900">
-              Attendance Dashboard
+              {t("app.title")}
             </h1>
-            <p className="text-sm text-slate-600">
-              Track today&apos;s check-ins and historical attendance by date.
-            </p>
+            <p className="text-sm text-slate-600">{t("app.subtitle")}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {centres.length > 1 && centre && (
+              <select
+                className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+                aria-label={t("app.centre")}
+                value={centre.id}
+                onChange={(e) => selectCentre(e.target.value)}
+              >
+                {centres.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {centres.length === 1 && centre && (
+              <span className="text-sm text-slate-700">{centre.name}</span>
+            )}
+            <LanguageSelect />
+            <span className="text-sm text-slate-500">
+              {t(roleLabels[role])}
+            </span>
+            <Button variant="ghost" onClick={() => setShowMfaSettings(true)}>
+              {t("app.security")}
+            </Button>
+            <Button variant="outline" onClick={handleSignOut}>
+              {t("app.signOut")}
+            </Button>
           </div>
-          <Button variant="outline" onClick={handleSignOut}>
-            Sign out
-          </Button>
         </div>
 
-        {error && (
+        {(!online || staleSince) && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardContent className="p-4 text-sm text-amber-800">
+              {t(online ? "offline.serverUnreachable" : "offline.offline")}
+              {staleSince &&
+                ` ${t("offline.showingSaved", {
+                  time: toCentreTime(
+                    new Date(staleSince).toISOString(),
+                    timeZone
+                  ),
+                })}`}
+            </CardContent>
+          </Card>
+        )}
+
+        {(error ?? centresError) && (
           <Card className="border-red-200 bg-red-50">
             <CardContent className="p-4 text-sm text-red-700">
-              {error}
+              {error ?? centresError}
             </CardContent>
           </Card>
         )}
 
-        <Tabs defaultValue="current">
+        <Tabs value={activeTab} onValueChange={(tab) => updateView({ tab })}>
           <TabsList>
-            <TabsTrigger value="current" onClick={() => setSelectedDate(null)}>
-              Current Day
-            </TabsTrigger>
-            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="current">{t("tabs.current")}</TabsTrigger>
+            {canViewHistory && (
+              <TabsTrigger value="history">{t("tabs.history")}</TabsTrigger>
+            )}
+            {can(role, "triage_notifications") && (
+              <TabsTrigger value="notifications">
+                {t("tabs.notifications")}
+                {pendingNotificationCount > 0 && (
+                  <span className="ml-2 rounded-full bg-red-100 px-2 text-xs text-red-700">
+                    {pendingNotificationCount}
+                  </span>
+                )}
+              </TabsTrigger>
+            )}
+            {can(role, "manage_students") && (
+              <TabsTrigger value="students">{t("tabs.students")}</TabsTrigger>
+            )}
+            {can(role, "manage_accounts") && (
+              <TabsTrigger value="accounts">{t("tabs.accounts")}</TabsTrigger>
+            )}
+            {showComparison && (
+              <TabsTrigger value="centres">{t("tabs.centres")}</TabsTrigger>
+            )}
+            {can(role, "view_analytics") && (
+              <TabsTrigger value="analytics">
+                {t("tabs.analytics")}
+              </TabsTrigger>
+            )}
+            {can(role, "view_audit") && (
+              <TabsTrigger value="audit">{t("tabs.audit")}</TabsTrigger>
+            )}
+            {can(role, "run_station") && (
+              <TabsTrigger value="station">{t("tabs.station")}</TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="current">
             <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
               <Card>
                 <CardHeader>
-                  <CardTitle>Today&apos;s Records</CardTitle>
-                  <CardDescription>
-                    Latest check-ins from students_checkin.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="mb-4 grid gap-3 md:grid-cols-3">
-                    <input
-                      className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                      placeholder="Search student..."
-                      value={currentSearch}
-                      onChange={(e) => setCurrentSearch(e.target.value)}
-                    />
-                    <select
-                      className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                      value={currentStatusFilter}
-                      onChange={(e) => setCurrentStatusFilter(e.target.value)}
-                    >
-                      <option value="all">All Status</option>
-                      <option value="checked_in">Checked In</option>
-                      <option value="checked_out">Checked Out</option>
-                    </select>
-                    <select
-                      className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
-                      value={currentNotifiedFilter}
-                      onChange={(e) => setCurrentNotifiedFilter(e.target.value)}
-                    >
-                      <option value="all">All Notifications</option>
-                      <option value="yes">Notified</option>
-                      <option value="no">Not Notified</option>
-                    </select>
-                  </div>
-                  <div className="max-h-[420px] overflow-auto rounded-md border border-slate-200">
-                    <div className="w-full overflow-x-auto">
-                      <table className="min-w-[720px] w-full text-sm">
-                      <thead className="bg-slate-100 text-left text-slate-600">
-                        <tr>
-                          <th className="px-3 py-2">Student</th>
-                          <th className="px-3 py-2">Status</th>
-                          <th className="px-3 py-2">Notified</th>
-                          <th className="px-3 py-2">Failed Reason</th>
-                          <th className="px-3 py-2">Time Spent</th>
-                          <th className="px-3 py-2">Check In</th>
-                          <th className="px-3 py-2">Check Out</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {filteredCurrentRecords.map((row) => (
-                          <tr key={row.id} className="border-t">
-                            <td className="px-3 py-2 font-medium text-slate-800">
-                              {row.student_name}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.status}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.parent_notified ?? "-"}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.failed_reason ?? "-"}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.time_spent ?? "-"}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {formatDateTime(row.checkin_time)}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {formatDateTime(row.checkout_time)}
-                            </td>
-                          </tr>
-                        ))}
-                        {filteredCurrentRecords.length === 0 && (
-                          <tr>
-                            <td
-                              className="px-3 py-6 text-center text-slate-500"
-                              colSpan={7}
-                            >
-                              No current records.
-                            </td>
-                          </tr>
-                        )}
-                        </tbody>
-                      </table>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle>{t("current.title")}</CardTitle>
+                    <div className="flex items-center gap-3">
+                      <span className="flex items-center gap-2 text-xs text-slate-500">
+                        <span
+                          className={cn(
+                            "inline-block h-2 w-2 rounded-full",
+                            realtimeStatus === "live" && "bg-emerald-500",
+                            realtimeStatus === "connecting" && "bg-slate-400",
+                            realtimeStatus === "polling" && "bg-amber-500"
+                          )}
+                        />
+                        {t(realtimeStatusLabels[realtimeStatus])}
+                      </span>
+                      {can(role, "export") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setExportDialog({ range: null })}
+                        >
+                          {t("action.export")}
+                        </Button>
+                      )}
+                      {canArchive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={currentRecords.length === 0}
+                          onClick={() => setClosingDay(true)}
+                        >
+                          {t("action.closeDay")}
+                        </Button>
+                      )}
                     </div>
                   </div>
+                  <CardDescription>{t("current.description")}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RecordFilterBar
+                    filter={view}
+                    onChange={(patch, replace) =>
+                      updateView(patch, { replace })
+                    }
+                    failedReasons={showFailureReasons ? filterReasons : null}
+                  />
+                  <DataTable
+                    rows={filteredCurrentRecords}
+                    columns={currentColumns}
+                    getRowId={(row) => row.id}
+                    rowHeight={canCorrect ? 53 : 41}
+                    rowClassName={(row) =>
+                      changedIds.has(row.id) && "bg-amber-50"
+                    }
+                    onRowActivate={canViewHistory ? openProfile : undefined}
+                    emptyMessage={t("current.empty")}
+                  />
                 </CardContent>
               </Card>
 
               <div className="space-y-6">
+                {students.length > 0 && (
+                  <ExpectedStudents
+                    absent={absentStudents}
+                    flaggedCount={currentRosterFlags.size}
+                    onStudentClick={
+                      canViewHistory
+                        ? (student) =>
+                            setProfileStudent({
+                              id: student.id,
+                              name: student.name,
+                            })
+                        : undefined
+                    }
+                  />
+                )}
+                <AlertsPanel
+                  alerts={alerts}
+                  closingTime={closingTime}
+                  notificationPermission={notificationPermission}
+                  onAcknowledge={acknowledge}
+                  onClosingTimeChange={setClosingTime}
+                  onEnableNotifications={requestPermission}
+                />
+
                 <Card>
                   <CardHeader>
-                    <CardTitle>Status Overview</CardTitle>
-                    <CardDescription>Checked in/out and notified.</CardDescription>
+                    <CardTitle>{t("chart.statusTitle")}</CardTitle>
+                    <CardDescription>
+                      {t("chart.statusDescription")}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
                     {loading ? (
@@ -455,14 +753,14 @@ export default function App() {
                     ) : (
                       <ChartContainer
                         config={{
-                          value: { label: "Count", color: "#2563eb" },
+                          value: { label: t("chart.count"), color: "#2563eb" },
                         }}
                       >
                         <BarChart data={statusChartData}>
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis dataKey="name" />
                           <YAxis allowDecimals={false} />
-                          <ChartTooltip />
+                          <ChartTooltip formatValue={formatChartValue} />
                           <Bar dataKey="value" fill="var(--color-value)" />
                         </BarChart>
                       </ChartContainer>
@@ -470,10 +768,181 @@ export default function App() {
                   </CardContent>
                 </Card>
 
+                <TimeSpentChart
+                  records={filteredCurrentRecords}
+                  bounds={timeBuckets}
+                  onBoundsChange={setTimeBuckets}
+                  loading={loading}
+                />
+              </div>
+            </div>
+          </TabsContent>
+
+          {canViewHistory && (
+            <TabsContent value="history">
+              <div className="grid gap-6 lg:grid-cols-[1fr_2fr]">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("history.datesTitle")}</CardTitle>
+                    <CardDescription>
+                      {t("history.datesDescription")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="mb-4 space-y-3">
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setHistoryRange(
+                              presetRange("this-week", todayInCentre(timeZone))
+                            )
+                          }
+                        >
+                          {t("history.thisWeek")}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setHistoryRange(
+                              presetRange(
+                                "last-30-days",
+                                todayInCentre(timeZone)
+                              )
+                            )
+                          }
+                        >
+                          {t("history.last30Days")}
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                          type="date"
+                          aria-label={t("history.from")}
+                          value={historyRange?.from ?? ""}
+                          max={historyRange?.to}
+                          onChange={(e) =>
+                            e.target.value &&
+                            setHistoryRange({
+                              from: e.target.value,
+                              to: historyRange?.to ?? e.target.value,
+                            })
+                          }
+                        />
+                        <input
+                          className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                          type="date"
+                          aria-label={t("history.to")}
+                          value={historyRange?.to ?? ""}
+                          min={historyRange?.from}
+                          onChange={(e) =>
+                            e.target.value &&
+                            setHistoryRange({
+                              from: historyRange?.from ?? e.target.value,
+                              to: e.target.value,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      {dates.map((item) => (
+                        <Button
+                          key={item.id}
+                          variant={
+                            historyRange && isInRange(item.date, historyRange)
+                              ? "default"
+                              : "outline"
+                          }
+                          onClick={() =>
+                            setHistoryRange({ from: item.date, to: item.date })
+                          }
+                        >
+                          {item.date}
+                        </Button>
+                      ))}
+                      {dates.length === 0 && (
+                        <p className="text-sm text-slate-500">
+                          {t("history.noDates")}
+                        </p>
+                      )}
+                    </div>
+                    {dayActivity.length > 0 && (
+                      <div className="mt-4 space-y-2 border-t border-slate-200 pt-4">
+                        <h3 className="text-sm font-medium text-slate-700">
+                          {t("history.activity")}
+                        </h3>
+                        <DayActivity entries={dayActivity} />
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
                 <Card>
                   <CardHeader>
-                    <CardTitle>Time Spent (mins)</CardTitle>
-                    <CardDescription>Distribution by minutes.</CardDescription>
+                    <CardTitle>{t("history.recordsTitle")}</CardTitle>
+                    <CardDescription>
+                      {historyRange
+                        ? t("history.countForRange", {
+                            count: historyCountLabel,
+                            range: formatRange(historyRange, locale),
+                          })
+                        : t("history.selectDate")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <RecordFilterBar
+                      filter={view}
+                      onChange={(patch, replace) =>
+                        updateView(patch, { replace })
+                      }
+                      failedReasons={showFailureReasons ? filterReasons : null}
+                    />
+                    <div className="mb-3 flex items-center justify-end gap-2">
+                      {canArchive && selectedDate && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setReopening(selectedDate)}
+                        >
+                          {t("action.reopenDate")}
+                        </Button>
+                      )}
+                      {can(role, "export") && (
+                        <Button
+                          variant="outline"
+                          onClick={() =>
+                            setExportDialog({ range: historyRange })
+                          }
+                        >
+                          {t("action.export")}
+                        </Button>
+                      )}
+                    </div>
+                    <DataTable
+                      rows={filteredHistoryRecords}
+                      columns={historyColumns}
+                      getRowId={(row) => row.id}
+                      initialSort={{ columnId: "date", direction: "asc" }}
+                      onRowActivate={openProfile}
+                      emptyMessage={t(
+                        historyRange
+                          ? "history.emptyRange"
+                          : "history.selectDate"
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+              <div className="mt-6 grid gap-6 lg:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("chart.statusTitle")}</CardTitle>
+                    <CardDescription>
+                      {t("chart.dailyDescription")}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
                     {loading ? (
@@ -483,187 +952,290 @@ export default function App() {
                     ) : (
                       <ChartContainer
                         config={{
-                          value: { label: "Students", color: "#10b981" },
+                          checkedOut: {
+                            label: t("chart.checkedOut"),
+                            color: "#2563eb",
+                          },
+                          checkedIn: {
+                            label: t("chart.checkedIn"),
+                            color: "#93c5fd",
+                          },
+                          notifiedRate: {
+                            label: t("chart.notifiedRate"),
+                            color: "#f59e0b",
+                          },
                         }}
-                        className="h-[300px]"
                       >
-                        <BarChart data={timeChartData} margin={{ left: 12, right: 12 }}>
+                        <ComposedChart data={historyDailyData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="name" />
-                          <YAxis allowDecimals={false} />
-                          <ChartTooltip />
-                          <Bar dataKey="value" fill="var(--color-value)" />
-                        </BarChart>
+                          <XAxis dataKey="date" />
+                          <YAxis yAxisId="count" allowDecimals={false} />
+                          <YAxis
+                            yAxisId="rate"
+                            orientation="right"
+                            domain={[0, 100]}
+                            unit="%"
+                          />
+                          <ChartTooltip formatValue={formatChartValue} />
+                          <Bar
+                            yAxisId="count"
+                            dataKey="checkedOut"
+                            stackId="status"
+                            fill="var(--color-checkedOut)"
+                          />
+                          <Bar
+                            yAxisId="count"
+                            dataKey="checkedIn"
+                            stackId="status"
+                            fill="var(--color-checkedIn)"
+                          />
+                          <Line
+                            yAxisId="rate"
+                            dataKey="notifiedRate"
+                            stroke="var(--color-notifiedRate)"
+                          />
+                        </ComposedChart>
                       </ChartContainer>
                     )}
                   </CardContent>
                 </Card>
-              </div>
-            </div>
-          </TabsContent>
 
-          <TabsContent value="history">
-            <div className="grid gap-6 lg:grid-cols-[1fr_2fr]">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Archived Dates</CardTitle>
-                  <CardDescription>Select a date to view.</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex flex-col gap-2">
-                    {dates.map((item) => (
-                      <Button
-                        key={item.id}
-                        variant={selectedDate === item.date ? "default" : "outline"}
-                        onClick={() => setSelectedDate(item.date)}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("chart.timeSpentTitle")}</CardTitle>
+                    <CardDescription>
+                      {t("chart.timeSpentDescription")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {loading ? (
+                      <div className="flex h-[300px] items-center justify-center">
+                        <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+                      </div>
+                    ) : (
+                      <ChartContainer
+                        config={{
+                          averageMinutes: {
+                            label: t("chart.averageMinutes"),
+                            color: "#10b981",
+                          },
+                        }}
+                        className="h-[300px]"
                       >
-                        {item.date}
-                      </Button>
-                    ))}
-                    {dates.length === 0 && (
-                      <p className="text-sm text-slate-500">
-                        No archived days yet.
-                      </p>
+                        <LineChart
+                          data={historyDailyData}
+                          margin={{ left: 12, right: 12 }}
+                        >
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="date" />
+                          <YAxis />
+                          <ChartTooltip
+                            formatValue={(item) =>
+                              i18n.formatDuration(Number(item.value))
+                            }
+                          />
+                          <Line
+                            dataKey="averageMinutes"
+                            stroke="var(--color-averageMinutes)"
+                          />
+                        </LineChart>
+                      </ChartContainer>
                     )}
-                  </div>
-                </CardContent>
-              </Card>
+                  </CardContent>
+                </Card>
+              </div>
+              <div className="mt-6">
+                <TimeSpentChart
+                  records={filteredHistoryRecords}
+                  bounds={timeBuckets}
+                  onBoundsChange={setTimeBuckets}
+                  loading={loading}
+                />
+              </div>
+            </TabsContent>
+          )}
 
-              <Card>
-                <CardHeader>
-                  <CardTitle>Archived Records</CardTitle>
-                  <CardDescription>
-                    {selectedDate
-                      ? `Records for ${selectedDate}.`
-                      : "Select a date to view records."}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="mb-3 flex items-center justify-end gap-2">
-                    <Button
-                      variant="outline"
-                      disabled={!selectedDate || historyRecords.length === 0}
-                      onClick={downloadHistoryCsv}
-                    >
-                      Download CSV
-                    </Button>
-                  </div>
-                  <div className="max-h-[420px] overflow-auto rounded-md border border-slate-200">
-                    <div className="w-full overflow-x-auto">
-                      <table className="min-w-[720px] w-full text-sm">
-                      <thead className="bg-slate-100 text-left text-slate-600">
-                        <tr>
-                          <th className="px-3 py-2">Student</th>
-                          <th className="px-3 py-2">Status</th>
-                          <th className="px-3 py-2">Notified</th>
-                          <th className="px-3 py-2">Time Spent</th>
-                          <th className="px-3 py-2">Check In</th>
-                          <th className="px-3 py-2">Check Out</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {historyRecords.map((row) => (
-                          <tr key={row.id} className="border-t">
-                            <td className="px-3 py-2 font-medium text-slate-800">
-                              {row.student_name}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.status}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.parent_notified ? "Yes" : "No"}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {row.time_spent ?? "-"}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {formatDateTime(row.checkin_time)}
-                            </td>
-                            <td className="px-3 py-2 text-slate-600">
-                              {formatDateTime(row.checkout_time)}
-                            </td>
-                          </tr>
-                        ))}
-                        {historyRecords.length === 0 && (
-                          <tr>
-                            <td
-                              className="px-3 py-6 text-center text-slate-500"
-                              colSpan={6}
-                            >
-                              {selectedDate
-                                ? "No records for this date."
-                                : "Select a date to view records."}
-                            </td>
-                          </tr>
-                        )}
-                        </tbody>
-                      </table>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-            <div className="mt-6 grid gap-6 lg:grid-cols-2">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Status Overview</CardTitle>
-                  <CardDescription>Checked in/out and notified.</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {loading ? (
-                    <div className="flex h-[300px] items-center justify-center">
-                      <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
-                    </div>
-                  ) : (
-                    <ChartContainer
-                      config={{
-                        value: { label: "Count", color: "#2563eb" },
-                      }}
-                    >
-                      <BarChart data={statusChartData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="name" />
-                        <YAxis allowDecimals={false} />
-                        <ChartTooltip />
-                        <Bar dataKey="value" fill="var(--color-value)" />
-                      </BarChart>
-                    </ChartContainer>
-                  )}
-                </CardContent>
-              </Card>
+          {api && can(role, "triage_notifications") && (
+            <TabsContent value="notifications">
+              <NotificationTriage
+                api={api}
+                records={triageRecords}
+                onRecordUpdated={handleRecordUpdated}
+              />
+            </TabsContent>
+          )}
 
-              <Card>
-                <CardHeader>
-                  <CardTitle>Time Spent (mins)</CardTitle>
-                  <CardDescription>Distribution by minutes.</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {loading ? (
-                    <div className="flex h-[300px] items-center justify-center">
-                      <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
-                    </div>
-                  ) : (
-                    <ChartContainer
-                      config={{
-                        value: { label: "Students", color: "#10b981" },
-                      }}
-                      className="h-[300px]"
-                    >
-                      <BarChart data={timeChartData} margin={{ left: 12, right: 12 }}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="name" />
-                        <YAxis allowDecimals={false} />
-                        <ChartTooltip />
-                        <Bar dataKey="value" fill="var(--color-value)" />
-                      </BarChart>
-                    </ChartContainer>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
+          {api && can(role, "manage_students") && (
+            <TabsContent value="students">
+              <StudentRoster
+                api={api}
+                students={students}
+                loadError={rosterError}
+                onStudentsChange={setStudents}
+              />
+            </TabsContent>
+          )}
+
+          {api && can(role, "manage_accounts") && (
+            <TabsContent value="accounts" className="space-y-6">
+              <AccountManager api={api} />
+              {can(role, "manage_kiosks") && <KioskDevices api={api} />}
+              {(digest.settings || digest.error) && (
+                <DigestSettingsCard
+                  key={`${centreId}-${digest.settings ? "saved" : "default"}`}
+                  settings={digest.settings ?? DEFAULT_DIGEST_SETTINGS}
+                  lastSent={digest.lastSent}
+                  loadError={digest.error}
+                  onSave={digest.save}
+                  onSendTest={digest.sendTest}
+                  buildMessage={digest.buildMessage}
+                />
+              )}
+            </TabsContent>
+          )}
+
+          {accountApi && showComparison && (
+            <TabsContent value="centres">
+              <CentreComparison api={accountApi} centres={centres} />
+            </TabsContent>
+          )}
+
+          {api && can(role, "view_analytics") && (
+            <TabsContent value="analytics">
+              <AttendanceAnalytics api={api} dates={dates} />
+            </TabsContent>
+          )}
+
+          {api && can(role, "view_audit") && (
+            <TabsContent value="audit">
+              <AuditLog api={api} students={students} />
+            </TabsContent>
+          )}
+
+          {api && can(role, "run_station") && (
+            <TabsContent value="station">
+              <CheckInStation
+                api={api}
+                students={students}
+                onRecord={handleScanRecord}
+                onActivity={idle.stayActive}
+              />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
+
+      {api && profileStudent && (
+        <StudentProfile
+          key={profileStudent.id}
+          api={api}
+          studentId={profileStudent.id}
+          studentName={profileStudent.name}
+          dates={dates}
+          onClose={closeProfile}
+        />
+      )}
+
+      {api && exportDialog && (
+        <ExportDialog
+          api={api}
+          todayRecords={currentRecords}
+          initialRange={exportDialog.range}
+          filter={view}
+          onClose={() => setExportDialog(null)}
+        />
+      )}
+
+      {api && closingDay && (
+        <CloseDayDialog
+          api={api}
+          records={currentRecords}
+          onArchived={(change) =>
+            handleDayChanged(
+              change.date?.date ?? todayInCentre(timeZone),
+              change
+            )
+          }
+          onClose={() => setClosingDay(false)}
+        />
+      )}
+
+      {api && reopening && (
+        <ReopenDateDialog
+          key={reopening.id}
+          api={api}
+          date={reopening}
+          dates={dates}
+          currentCount={currentRecords.length}
+          onChanged={(change) => {
+            setHistoryRange(
+              change.date
+                ? { from: change.date.date, to: change.date.date }
+                : null
+            );
+            handleDayChanged(
+              change.date
+                ? `${reopening.date} → ${change.date.date}`
+                : reopening.date,
+              change
+            );
+          }}
+          onClose={() => setReopening(null)}
+        />
+      )}
+
+      {editingRecord && (
+        <RecordTimeEditor
+          key={editingRecord.id}
+          record={editingRecord}
+          onSave={(checkinTime, checkoutTime) =>
+            editTimes(editingRecord, checkinTime, checkoutTime)
+          }
+          onClose={() => setEditingRecord(null)}
+        />
+      )}
+
+      {showMfaSettings && (
+        <MfaSettings onClose={() => setShowMfaSettings(false)} />
+      )}
+
+      {idle.secondsLeft !== null && (
+        <Toast className="bottom-20">
+          <span>
+            {t("session.idleWarning", { seconds: idle.secondsLeft })}
+          </span>
+          <button
+            type="button"
+            className="font-medium underline"
+            onClick={idle.stayActive}
+          >
+            {t("session.stay")}
+          </button>
+        </Toast>
+      )}
+
+      {toast && (
+        <Toast tone={toast.tone}>
+          <span>{toast.message}</span>
+          {toast.revert && (
+            <button
+              type="button"
+              className="font-medium underline"
+              onClick={undo}
+            >
+              {t("common.undo")}
+            </button>
+          )}
+          <button
+            type="button"
+            className="text-white/70 hover:text-white"
+            aria-label={t("common.dismiss")}
+            onClick={dismissToast}
+          >
+            &times;
+          </button>
+        </Toast>
+      )}
     </div>
   );
 }
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import { ROLES, isRole, roleLabels, type Role } from "@/lib/roles";
+import type { Account } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type AccountManagerProps = {
+  api: ApiClient;
+};
+
+export function AccountManager({ api }: AccountManagerProps) {
+  const { t } = useI18n();
+  const [accounts, setAccounts] = useState<Account[] | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .getAccounts(controller.signal)
+      .then(setAccounts)
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api]);
+
+  const changeRole = async (account: Account, role: Role) => {
+    setSavingId(account.id);
+    setError(null);
+    try {
+      const updated = await api.updateAccountRole(account, role);
+      setAccounts((prev) =>
+        (prev ?? []).map((row) => (row.id === updated.id ? updated : row))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("tabs.accounts")}</CardTitle>
+        <CardDescription>{t("accounts.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+        <div className="overflow-x-auto rounded-md border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100 text-left text-slate-600">
+              <tr>
+                <th className="px-3 py-2">{t("accounts.email")}</th>
+                <th className="px-3 py-2">{t("accounts.role")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(accounts ?? []).map((account) => (
+                <tr key={account.id} className="border-t">
+                  <td className="px-3 py-2 font-medium text-slate-800">
+                    {account.email}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      className="rounded-md border border-slate-300 px-3 py-1.5 text-sm"
+                      value={account.role}
+                      disabled={savingId === account.id}
+                      onChange={(e) => {
+                        if (isRole(e.target.value)) {
+                          changeRole(account, e.target.value);
+                        }
+                      }}
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {t(roleLabels[role])}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+              {accounts?.length === 0 && (
+                <tr>
+                  <td
+                    className="px-3 py-6 text-center text-slate-500"
+                    colSpan={2}
+                  >
+                    {t("accounts.empty")}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import type { AlertKind, AttendanceAlert } from "@/lib/alerts";
+import type { MessageKey } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const kindLabels: Record<AlertKind, MessageKey> = {
+  "open-after-closing": "alerts.kindOpenAfterClosing",
+  "long-session": "alerts.kindLongSession",
+  "short-session": "alerts.kindShortSession",
+  duplicate: "alerts.kindDuplicate",
+};
+
+type AlertsPanelProps = {
+  alerts: AttendanceAlert[];
+  closingTime: string;
+  notificationPermission: NotificationPermission;
+  onAcknowledge: (id: string) => void;
+  onClosingTimeChange: (value: string) => void;
+  onEnableNotifications: () => void;
+};
+
+export function AlertsPanel({
+  alerts,
+  closingTime,
+  notificationPermission,
+  onAcknowledge,
+  onClosingTimeChange,
+  onEnableNotifications,
+}: AlertsPanelProps) {
+  const { t } = useI18n();
+  return (
+    <Card className={cn(alerts.length > 0 && "border-amber-300")}>
+      <CardHeader>
+        <CardTitle>{t("alerts.title")}</CardTitle>
+        <CardDescription>{t("alerts.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <label htmlFor="closing-time">{t("alerts.closingTime")}</label>
+          <input
+            id="closing-time"
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+            type="time"
+            value={closingTime}
+            onChange={(e) =>
+              e.target.value && onClosingTimeChange(e.target.value)
+            }
+          />
+          {notificationPermission === "default" && (
+            <Button size="sm" variant="outline" onClick={onEnableNotifications}>
+              {t("alerts.enableNotifications")}
+            </Button>
+          )}
+        </div>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-slate-500">{t("alerts.empty")}</p>
+        ) : (
+          <ul className="space-y-2">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="flex items-start justify-between gap-3 rounded-md bg-amber-50 p-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-slate-800">
+                    {alert.studentName}{" "}
+                    <span className="text-xs font-normal text-amber-700">
+                      {t(kindLabels[alert.kind])}
+                    </span>
+                  </p>
+                  <p className="text-slate-600">{alert.message}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onAcknowledge(alert.id)}
+                >
+                  {t("alerts.acknowledge")}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
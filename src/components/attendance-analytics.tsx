@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  LineChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import {
+  checkinHeatmap,
+  churnRisks,
+  CHURN_WINDOW_WEEKS,
+  deliveryTrend,
+  weeklyCounts,
+  type HeatmapCell,
+} from "@/lib/analytics";
+import { ChartImageError, exportChartImage } from "@/lib/chart-image";
+import { spanRange, todayInCentre, weekdayLabel } from "@/lib/date-range";
+import type { Locale } from "@/lib/i18n";
+import type { AttendanceDate, AttendanceRecord } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+
+const HEATMAP_CELL = 18;
+
+/** Heatmap rows start on Monday; returns the row for a `dayOfWeek` value. */
+function weekdayRow(day: number) {
+  return (day + 6) % 7;
+}
+
+function rowLabel(row: number, locale: Locale) {
+  return weekdayLabel((row + 1) % 7, locale);
+}
+
+type HeatmapDatum = HeatmapCell & { row: number; intensity: number };
+
+type HeatmapShapeProps = {
+  cx?: number;
+  cy?: number;
+  payload?: HeatmapDatum;
+};
+
+function HeatmapShape({ cx = 0, cy = 0, payload }: HeatmapShapeProps) {
+  return (
+    <rect
+      x={cx - HEATMAP_CELL / 2}
+      y={cy - HEATMAP_CELL / 2}
+      width={HEATMAP_CELL}
+      height={HEATMAP_CELL}
+      rx={3}
+      fill="var(--color-count)"
+      fillOpacity={0.15 + 0.85 * (payload?.intensity ?? 0)}
+    />
+  );
+}
+
+type ChartCardProps = {
+  title: string;
+  description: string;
+  /** File name for the saved PNG, without extension. */
+  imageName: string;
+  onImageSaved: (name: string) => void;
+  children: ReactNode;
+};
+
+function ChartCard({
+  title,
+  description,
+  imageName,
+  onImageSaved,
+  children,
+}: ChartCardProps) {
+  const { t } = useI18n();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const saveImage = async () => {
+    if (!chartRef.current) return;
+    setError(null);
+    try {
+      await exportChartImage(chartRef.current, imageName);
+      onImageSaved(imageName);
+    } catch (err) {
+      if (err instanceof ChartImageError) setError(t(err.key));
+      else setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>{title}</CardTitle>
+          <Button variant="outline" size="sm" onClick={saveImage}>
+            {t("analytics.saveImage")}
+          </Button>
+        </div>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+        <div ref={chartRef}>{children}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type AttendanceAnalyticsProps = {
+  api: ApiClient;
+  dates: AttendanceDate[];
+};
+
+export function AttendanceAnalytics({ api, dates }: AttendanceAnalyticsProps) {
+  const { locale, timeZone, t } = useI18n();
+  const [loaded, setLoaded] = useState<{
+    dates: AttendanceDate[];
+    records: AttendanceRecord[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const range = spanRange(dates.map((item) => item.date));
+    const load = range
+      ? api.getRecordsInRange(range, controller.signal)
+      : Promise.resolve<AttendanceRecord[]>([]);
+    load
+      .then((records) => {
+        setLoaded({ dates, records });
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api, dates]);
+
+  const loading = loaded?.dates !== dates && !error;
+  const records = useMemo(() => loaded?.records ?? [], [loaded]);
+
+  const weekly = useMemo(
+    () => weeklyCounts(records, timeZone),
+    [records, timeZone]
+  );
+  const delivery = useMemo(
+    () => deliveryTrend(records, timeZone),
+    [records, timeZone]
+  );
+  const risks = useMemo(
+    () => churnRisks(records, todayInCentre(timeZone), timeZone),
+    [records, timeZone]
+  );
+  const heatmap = useMemo(() => {
+    const cells = checkinHeatmap(records, timeZone);
+    const max = Math.max(1, ...cells.map((cell) => cell.count));
+    return cells.map((cell) => ({
+      ...cell,
+      row: weekdayRow(cell.day),
+      intensity: cell.count / max,
+    }));
+  }, [records, timeZone]);
+  const hourDomain = useMemo<[number, number]>(() => {
+    if (heatmap.length === 0) return [8, 20];
+    const hours = heatmap.map((cell) => cell.hour);
+    return [Math.min(...hours), Math.max(...hours)];
+  }, [heatmap]);
+
+  const logImage = (name: string) =>
+    api.logEvent({ action: "export", after: { kind: "chart", chart: name } });
+
+  if (loading) {
+    return (
+      <div className="flex h-[300px] items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <p className="text-sm text-slate-500">
+        {t("analytics.basedOn", {
+          records: records.length,
+          days: dates.length,
+        })}
+      </p>
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ChartCard
+          title={t("analytics.weeklyTitle")}
+          description={t("analytics.weeklyDescription")}
+          imageName="weekly-attendance"
+          onImageSaved={logImage}
+        >
+          <ChartContainer
+            config={{
+              visits: { label: t("column.visits"), color: "#2563eb" },
+              students: { label: t("tabs.students"), color: "#f97316" },
+            }}
+          >
+            <ComposedChart data={weekly}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="week" />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip />
+              <Bar dataKey="visits" fill="var(--color-visits)" />
+              <Line
+                type="monotone"
+                dataKey="students"
+                stroke="var(--color-students)"
+                strokeWidth={2}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title={t("analytics.heatmapTitle")}
+          description={t("analytics.heatmapDescription")}
+          imageName="checkin-heatmap"
+          onImageSaved={logImage}
+        >
+          <ChartContainer
+            config={{
+              hour: { label: t("analytics.hour") },
+              row: { label: t("analytics.day") },
+              count: { label: t("analytics.checkIns"), color: "#16a34a" },
+            }}
+          >
+            <ScatterChart margin={{ left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="hour"
+                domain={hourDomain}
+                allowDecimals={false}
+                tickFormatter={(hour: number) => `${hour}:00`}
+              />
+              <YAxis
+                type="number"
+                dataKey="row"
+                domain={[0, 6]}
+                ticks={[0, 1, 2, 3, 4, 5, 6]}
+                reversed
+                tickFormatter={(row) => rowLabel(row, locale)}
+              />
+              <ChartTooltip
+                formatValue={(item) =>
+                  item.dataKey === "row"
+                    ? rowLabel(Number(item.value), locale)
+                    : item.dataKey === "hour"
+                      ? `${item.value}:00`
+                      : String(item.value)
+                }
+              />
+              <Scatter data={heatmap} shape={HeatmapShape} />
+            </ScatterChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title={t("analytics.deliveryTitle")}
+          description={t("analytics.deliveryDescription")}
+          imageName="notification-delivery"
+          onImageSaved={logImage}
+        >
+          <ChartContainer
+            config={{
+              delivered: { label: t("analytics.delivered"), color: "#16a34a" },
+              contacted: {
+                label: t("triage.contactedManually"),
+                color: "#2563eb",
+              },
+              failed: { label: t("analytics.notDelivered"), color: "#dc2626" },
+            }}
+          >
+            <LineChart data={delivery}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="week" />
+              <YAxis domain={[0, 100]} unit="%" />
+              <ChartTooltip formatValue={(item) => `${item.value}%`} />
+              <Line
+                type="monotone"
+                dataKey="delivered"
+                stroke="var(--color-delivered)"
+                strokeWidth={2}
+              />
+              <Line
+                type="monotone"
+                dataKey="contacted"
+                stroke="var(--color-contacted)"
+                strokeWidth={2}
+              />
+              <Line
+                type="monotone"
+                dataKey="failed"
+                stroke="var(--color-failed)"
+                strokeWidth={2}
+              />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("analytics.churnTitle")}</CardTitle>
+            <CardDescription>
+              {t("analytics.churnDescription", { weeks: CHURN_WINDOW_WEEKS })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto rounded-md border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-100 text-left text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">{t("column.student")}</th>
+                    <th className="px-3 py-2 text-right">
+                      {t("analytics.before")}
+                    </th>
+                    <th className="px-3 py-2 text-right">
+                      {t("analytics.recent")}
+                    </th>
+                    <th className="px-3 py-2">{t("analytics.lastVisit")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {risks.map((risk) => (
+                    <tr key={risk.studentId} className="border-t">
+                      <td className="px-3 py-2 font-medium text-slate-800">
+                        {risk.studentName}
+                      </td>
+                      <td className="px-3 py-2 text-right">{risk.previous}</td>
+                      <td className="px-3 py-2 text-right">{risk.recent}</td>
+                      <td className="px-3 py-2">{risk.lastVisit}</td>
+                    </tr>
+                  ))}
+                  {risks.length === 0 && (
+                    <tr>
+                      <td
+                        className="px-3 py-6 text-center text-slate-500"
+                        colSpan={4}
+                      >
+                        {t("analytics.noChurn")}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
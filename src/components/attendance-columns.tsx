@@ -0,0 +1,115 @@
+import type { ReactNode } from "react";
+
+import { describeDuration, recordMinutes } from "@/lib/duration";
+import type { RosterFlag } from "@/lib/roster";
+import type { AttendanceRecord } from "@/lib/types";
+import type { I18n } from "@/hooks/use-i18n";
+import type { DataTableColumn } from "@/components/data-table";
+
+type AttendanceColumnOptions = {
+  i18n: I18n;
+  showDate?: boolean;
+  showFailureReason?: boolean;
+  /** Makes student names clickable. */
+  onStudentClick?: (row: AttendanceRecord) => void;
+  actions?: (row: AttendanceRecord) => ReactNode;
+  /** Roster problems keyed by record id, shown next to the name. */
+  rosterFlags?: Map<number, RosterFlag>;
+};
+
+function rosterFlagLabel({ t }: I18n, flag: RosterFlag) {
+  return flag.kind === "unknown"
+    ? t("roster.notOnRoster")
+    : t("roster.rosterName", { name: flag.rosterName });
+}
+
+/** Column set shared by the Current Day and History tables. */
+export function attendanceColumns({
+  i18n,
+  showDate = false,
+  showFailureReason = false,
+  onStudentClick,
+  actions,
+  rosterFlags,
+}: AttendanceColumnOptions): DataTableColumn<AttendanceRecord>[] {
+  const { t } = i18n;
+  const columns: (DataTableColumn<AttendanceRecord> | false)[] = [
+    showDate && {
+      id: "date",
+      header: t("column.date"),
+      cell: (row) => row.date ?? "-",
+      sortValue: (row) => row.date,
+    },
+    {
+      id: "student_name",
+      header: t("column.student"),
+      className: "font-medium text-slate-800",
+      hideable: false,
+      cell: (row) => {
+        const flag = rosterFlags?.get(row.id);
+        return (
+          <>
+            <button
+              type="button"
+              className="text-left enabled:hover:underline"
+              disabled={!onStudentClick}
+              onClick={() => onStudentClick?.(row)}
+            >
+              {row.student_name}
+            </button>
+            {flag && (
+              <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs font-normal text-amber-800">
+                {rosterFlagLabel(i18n, flag)}
+              </span>
+            )}
+          </>
+        );
+      },
+      sortValue: (row) => row.student_name,
+    },
+    {
+      id: "status",
+      header: t("column.status"),
+      cell: (row) => row.status,
+      sortValue: (row) => row.status,
+    },
+    {
+      id: "parent_notified",
+      header: t("column.notified"),
+      cell: (row) => row.parent_notified ?? "-",
+      sortValue: (row) => row.parent_notified,
+    },
+    showFailureReason && {
+      id: "failed_reason",
+      header: t("column.failedReason"),
+      cell: (row) => row.failed_reason ?? "-",
+      sortValue: (row) => row.failed_reason ?? null,
+    },
+    {
+      id: "time_spent",
+      header: t("column.timeSpent"),
+      cell: (row) => describeDuration(row, i18n.locale),
+      sortValue: (row) => recordMinutes(row),
+    },
+    {
+      id: "checkin_time",
+      header: t("column.checkIn"),
+      cell: (row) => i18n.formatDateTime(row.checkin_time),
+      sortValue: (row) => row.checkin_time,
+    },
+    {
+      id: "checkout_time",
+      header: t("column.checkOut"),
+      cell: (row) => i18n.formatDateTime(row.checkout_time),
+      sortValue: (row) => row.checkout_time,
+    },
+    !!actions && {
+      id: "actions",
+      header: t("column.actions"),
+      className: "text-right",
+      hideable: false,
+      cell: actions,
+    },
+  ];
+  return columns.filter((column) => column !== false);
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import {
+  AUDIT_ACTIONS,
+  EMPTY_AUDIT_FILTER,
+  actionLabel,
+  auditActionLabels,
+  auditChanges,
+  auditQuery,
+  exportAuditCsv,
+  isAuditAction,
+  type AuditFilter,
+} from "@/lib/audit";
+import type { AuditEvent, Student } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type AuditLogProps = {
+  api: ApiClient;
+  students: Student[];
+};
+
+export function AuditLog({ api, students }: AuditLogProps) {
+  const { locale, timeZone, t, formatDateTime } = useI18n();
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER);
+  // Typing in the user box only filters on Enter or blur.
+  const [actorDraft, setActorDraft] = useState("");
+  const [result, setResult] = useState<{
+    query: string;
+    events: AuditEvent[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = auditQuery(filter);
+  const loading = result?.query !== query && !error;
+  const events = result?.events ?? [];
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .getAuditEvents(filter, controller.signal)
+      .then((loaded) => {
+        setResult({ query: auditQuery(filter), events: loaded });
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api, filter]);
+
+  const update = (patch: Partial<AuditFilter>) => {
+    setError(null);
+    setFilter((prev) => ({ ...prev, ...patch }));
+  };
+
+  const commitActor = () => {
+    const actor = actorDraft.trim();
+    if (actor !== filter.actor) update({ actor });
+  };
+
+  const handleExport = () => {
+    exportAuditCsv(events, locale, timeZone);
+    api.logEvent({
+      action: "export",
+      after: { kind: "audit", filter, records: events.length },
+    });
+  };
+
+  const sortedStudents = [...students].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>{t("audit.title")}</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={events.length === 0}
+            onClick={handleExport}
+          >
+            {t("audit.exportCsv")}
+          </Button>
+        </div>
+        <CardDescription>{t("audit.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-5">
+          <input
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            type="search"
+            placeholder={t("audit.userPlaceholder")}
+            aria-label={t("audit.user")}
+            value={actorDraft}
+            onChange={(e) => setActorDraft(e.target.value)}
+            onBlur={commitActor}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitActor();
+            }}
+          />
+          <select
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            aria-label={t("column.student")}
+            value={filter.studentId ?? ""}
+            onChange={(e) =>
+              update({
+                studentId: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+          >
+            <option value="">{t("audit.allStudents")}</option>
+            {sortedStudents.map((student) => (
+              <option key={student.id} value={student.id}>
+                {student.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            aria-label={t("audit.action")}
+            value={filter.action}
+            onChange={(e) =>
+              update({
+                action: isAuditAction(e.target.value) ? e.target.value : "",
+              })
+            }
+          >
+            <option value="">{t("audit.allActions")}</option>
+            {AUDIT_ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {t(auditActionLabels[action])}
+              </option>
+            ))}
+          </select>
+          <input
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            type="date"
+            aria-label={t("history.from")}
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+          />
+          <input
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            type="date"
+            aria-label={t("history.to")}
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+          />
+        </div>
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+        {loading ? (
+          <div className="flex h-32 items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-md border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100 text-left text-slate-600">
+                <tr>
+                  <th className="px-3 py-2">{t("audit.time")}</th>
+                  <th className="px-3 py-2">{t("audit.user")}</th>
+                  <th className="px-3 py-2">{t("audit.action")}</th>
+                  <th className="px-3 py-2">{t("column.student")}</th>
+                  <th className="px-3 py-2">{t("audit.change")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr key={event.id} className="border-t align-top">
+                    <td className="whitespace-nowrap px-3 py-2 text-slate-600">
+                      {formatDateTime(event.created_at)}
+                    </td>
+                    <td className="px-3 py-2">{event.actor}</td>
+                    <td className="px-3 py-2">
+                      {actionLabel(event.action, locale)}
+                    </td>
+                    <td className="px-3 py-2">{event.student_name ?? "—"}</td>
+                    <td className="px-3 py-2">
+                      <ul className="space-y-0.5 text-xs text-slate-600">
+                        {auditChanges(event).map((change) => (
+                          <li key={change.field}>
+                            <span className="font-medium">{change.field}</span>
+                            : {change.before} → {change.after}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+                {events.length === 0 && (
+                  <tr>
+                    <td
+                      className="px-3 py-6 text-center text-slate-500"
+                      colSpan={5}
+                    >
+                      {t("audit.empty")}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import { statusCounts } from "@/lib/attendance";
+import {
+  formatRange,
+  presetRange,
+  todayInCentre,
+  type DateRange,
+  type RangePreset,
+} from "@/lib/date-range";
+import { recordMinutes } from "@/lib/duration";
+import type { MessageKey } from "@/lib/i18n";
+import { resolveTimeZone } from "@/lib/timezone";
+import type { AttendanceRecord, Centre } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+
+type ComparisonPeriod = "today" | RangePreset;
+
+const periodLabels: Record<ComparisonPeriod, MessageKey> = {
+  today: "comparison.today",
+  "this-week": "history.thisWeek",
+  "this-month": "export.thisMonth",
+  "last-30-days": "history.last30Days",
+};
+
+type CentreRecords = {
+  range: DateRange | null;
+  records: AttendanceRecord[];
+};
+
+type CentreSummary = {
+  id: string;
+  name: string;
+  /** `null` for today, which each centre reads from its current day. */
+  range: DateRange | null;
+  visits: number;
+  averageMinutes: number | null;
+  notifiedRate: number;
+};
+
+function summarizeCentre(
+  centre: Centre,
+  { range, records }: CentreRecords
+): CentreSummary {
+  const minutes = records
+    .map(recordMinutes)
+    .filter((value): value is number => value !== null);
+  const { notified } = statusCounts(records);
+  return {
+    id: centre.id,
+    name: centre.name,
+    range,
+    visits: records.length,
+    averageMinutes: minutes.length
+      ? Math.round(
+          minutes.reduce((sum, value) => sum + value, 0) / minutes.length
+        )
+      : null,
+    notifiedRate: records.length
+      ? Math.round((notified / records.length) * 100)
+      : 0,
+  };
+}
+
+/** Periods follow each centre's own time zone, not the selected centre's. */
+async function loadCentreRecords(
+  api: ApiClient,
+  centre: Centre,
+  period: ComparisonPeriod,
+  signal: AbortSignal
+): Promise<CentreRecords> {
+  if (period === "today") {
+    return { range: null, records: await api.getCurrentRecords(signal) };
+  }
+  const range = presetRange(
+    period,
+    todayInCentre(resolveTimeZone(centre.time_zone))
+  );
+  return { range, records: await api.getRecordsInRange(range, signal) };
+}
+
+type CentreComparisonProps = {
+  api: ApiClient;
+  centres: Centre[];
+};
+
+/** Side-by-side totals for every centre the owner can see. */
+export function CentreComparison({ api, centres }: CentreComparisonProps) {
+  const { locale, t, formatDuration } = useI18n();
+  const [period, setPeriod] = useState<ComparisonPeriod>("today");
+  const [result, setResult] = useState<{
+    period: ComparisonPeriod;
+    summaries: CentreSummary[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all(
+      centres.map(async (centre) =>
+        summarizeCentre(
+          centre,
+          await loadCentreRecords(
+            api.forCentre(centre.id),
+            centre,
+            period,
+            controller.signal
+          )
+        )
+      )
+    )
+      .then((summaries) => {
+        setResult({ period, summaries });
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api, centres, period]);
+
+  const loading = result?.period !== period && !error;
+  const summaries = useMemo(() => result?.summaries ?? [], [result]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle>{t("comparison.title")}</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(periodLabels).map(([value, label]) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={period === value ? "default" : "outline"}
+                onClick={() => setPeriod(value as ComparisonPeriod)}
+              >
+                {t(label)}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <CardDescription>
+          {period === "today"
+            ? t("comparison.todayDescription")
+            : t("comparison.rangeDescription")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {loading ? (
+          <div className="flex h-[300px] items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+          </div>
+        ) : (
+          <>
+            <ChartContainer
+              config={{
+                visits: { label: t("column.visits"), color: "#2563eb" },
+                notifiedRate: {
+                  label: t("chart.notifiedRate"),
+                  color: "#f59e0b",
+                },
+              }}
+            >
+              <BarChart data={summaries}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis yAxisId="count" allowDecimals={false} />
+                <YAxis
+                  yAxisId="rate"
+                  orientation="right"
+                  domain={[0, 100]}
+                  unit="%"
+                />
+                <ChartTooltip />
+                <Bar
+                  yAxisId="count"
+                  dataKey="visits"
+                  fill="var(--color-visits)"
+                />
+                <Bar
+                  yAxisId="rate"
+                  dataKey="notifiedRate"
+                  fill="var(--color-notifiedRate)"
+                />
+              </BarChart>
+            </ChartContainer>
+            <div className="overflow-x-auto rounded-md border border-slate-200">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-100 text-left text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">{t("app.centre")}</th>
+                    {period !== "today" && (
+                      <th className="px-3 py-2">{t("comparison.dates")}</th>
+                    )}
+                    <th className="px-3 py-2 text-right">
+                      {t("column.visits")}
+                    </th>
+                    <th className="px-3 py-2 text-right">
+                      {t("profile.averageTime")}
+                    </th>
+                    <th className="px-3 py-2 text-right">
+                      {t("chart.notified")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaries.map((summary) => (
+                    <tr key={summary.id} className="border-t">
+                      <td className="px-3 py-2 font-medium text-slate-800">
+                        {summary.name}
+                      </td>
+                      {summary.range && (
+                        <td className="px-3 py-2 text-slate-600">
+                          {formatRange(summary.range, locale)}
+                        </td>
+                      )}
+                      <td className="px-3 py-2 text-right">{summary.visits}</td>
+                      <td className="px-3 py-2 text-right">
+                        {summary.averageMinutes === null
+                          ? "-"
+                          : formatDuration(summary.averageMinutes)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {summary.notifiedRate}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type FormEvent,
+} from "react";
+
+import {
+  OfflineQueuedError,
+  type ApiClient,
+  type ScanResult,
+} from "@/lib/api";
+import { createScanGuard, parseStudentCode } from "@/lib/check-in-station";
+import type { MessageKey } from "@/lib/i18n";
+import type { AttendanceRecord, Student } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { useQrScanner, type QrScannerStatus } from "@/hooks/use-qr-scanner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const CONFIRMATION_MS = 5000;
+const RECENT_LIMIT = 8;
+
+const cameraLabels: Record<QrScannerStatus, MessageKey> = {
+  off: "station.cameraOff",
+  unsupported: "station.cameraUnsupported",
+  starting: "station.cameraStarting",
+  scanning: "station.cameraScanning",
+  error: "station.cameraError",
+};
+
+const actionLabels: Record<ScanResult["action"], MessageKey> = {
+  checked_in: "chart.checkedIn",
+  checked_out: "chart.checkedOut",
+};
+
+/**
+ * The camera reads a held card several times a second, so its repeats are
+ * dropped quietly; a repeat typed or wedge-scanned is worth a warning.
+ */
+type ScanSource = "camera" | "keyboard";
+
+type ScanOutcome = {
+  key: number;
+  tone: "success" | "warning" | "error";
+  title: string;
+  detail: string;
+};
+
+type CheckInStationProps = {
+  api: ApiClient;
+  students: Student[];
+  onRecord: (record: AttendanceRecord) => void;
+  /** Called on every scan so an idle sign-out doesn't end a busy station. */
+  onActivity: () => void;
+};
+
+export function CheckInStation({
+  api,
+  students,
+  onRecord,
+  onActivity,
+}: CheckInStationProps) {
+  const { t, formatDateTime } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [guard] = useState(() => createScanGuard());
+  // The camera keeps reading a bad code while it is held up; report it once.
+  const [errorGuard] = useState(() => createScanGuard<string>());
+  const [cameraOn, setCameraOn] = useState(false);
+  const [code, setCode] = useState("");
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const [recent, setRecent] = useState<ScanOutcome[]>([]);
+
+  useEffect(() => {
+    if (!outcome) return;
+    const timer = setTimeout(() => setOutcome(null), CONFIRMATION_MS);
+    return () => clearTimeout(timer);
+  }, [outcome]);
+
+  const show = useCallback(
+    (next: Omit<ScanOutcome, "key">, remember = false) => {
+      const entry = { ...next, key: Date.now() };
+      setOutcome(entry);
+      if (remember) {
+        setRecent((prev) => [entry, ...prev].slice(0, RECENT_LIMIT));
+      }
+    },
+    []
+  );
+
+  const handleCode = useCallback(
+    async (text: string, source: ScanSource) => {
+      onActivity();
+      const studentId = parseStudentCode(text);
+      const repeatedError = () =>
+        !errorGuard.accept(text) && source === "camera";
+      if (studentId === null) {
+        if (repeatedError()) return;
+        show({ tone: "error", title: t("station.unreadable"), detail: text });
+        return;
+      }
+      const student = students.find((row) => row.id === studentId);
+      if (students.length > 0 && !student) {
+        if (repeatedError()) return;
+        show({
+          tone: "error",
+          title: t("station.unknownStudent"),
+          detail: t("station.notOnRoster", { id: studentId }),
+        });
+        return;
+      }
+      const name = student?.name ?? t("station.student", { id: studentId });
+      if (!guard.accept(studentId)) {
+        if (source === "keyboard") {
+          show({
+            tone: "warning",
+            title: name,
+            detail: t("station.alreadyScanned"),
+          });
+        }
+        return;
+      }
+      try {
+        const { record, action } = await api.scanStudent(studentId);
+        onRecord(record);
+        const time =
+          action === "checked_in" ? record.checkin_time : record.checkout_time;
+        show(
+          {
+            tone: "success",
+            title: record.student_name,
+            detail: time
+              ? `${t(actionLabels[action])} ${formatDateTime(time)}`
+              : t(actionLabels[action]),
+          },
+          true
+        );
+      } catch (err) {
+        if (err instanceof OfflineQueuedError) {
+          show(
+            {
+              tone: "warning",
+              title: name,
+              detail: t("station.savedOffline"),
+            },
+            true
+          );
+          return;
+        }
+        guard.forget(studentId);
+        show({
+          tone: "error",
+          title: name,
+          detail: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [
+      api,
+      students,
+      guard,
+      errorGuard,
+      onRecord,
+      onActivity,
+      show,
+      t,
+      formatDateTime,
+    ]
+  );
+
+  const handleCameraCode = useCallback(
+    (text: string) => handleCode(text, "camera"),
+    [handleCode]
+  );
+
+  const camera = useQrScanner(videoRef, cameraOn, handleCameraCode);
+
+  // Keyboard-wedge scanners type the code and press Enter into this field.
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+    handleCode(code, "keyboard");
+    setCode("");
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>{t("tabs.station")}</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={camera.status === "unsupported"}
+              onClick={() => setCameraOn((on) => !on)}
+            >
+              {cameraOn ? t("station.stopCamera") : t("station.useCamera")}
+            </Button>
+          </div>
+          <CardDescription>{t("station.description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSubmit}>
+            <input
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              placeholder={t("station.codePlaceholder")}
+              aria-label={t("station.code")}
+              autoFocus
+              autoComplete="off"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </form>
+          {outcome && (
+            <div
+              className={cn(
+                "rounded-xl p-6 text-center",
+                outcome.tone === "success" && "bg-emerald-50 text-emerald-800",
+                outcome.tone === "warning" && "bg-amber-50 text-amber-800",
+                outcome.tone === "error" && "bg-red-50 text-red-700"
+              )}
+              role="status"
+            >
+              <p className="text-3xl font-semibold">{outcome.title}</p>
+              <p className="mt-2 text-lg">{outcome.detail}</p>
+            </div>
+          )}
+          {cameraOn && (
+            <video
+              ref={videoRef}
+              className="w-full rounded-md bg-slate-900"
+              muted
+              playsInline
+            />
+          )}
+          <p className="text-xs text-slate-500">
+            {camera.error ?? t(cameraLabels[camera.status])}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("station.recentTitle")}</CardTitle>
+          <CardDescription>{t("station.recentDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <p className="text-sm text-slate-500">{t("station.noScans")}</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {recent.map((entry) => (
+                <li key={entry.key}>
+                  <p className="font-medium text-slate-800">{entry.title}</p>
+                  <p className="text-xs text-slate-500">{entry.detail}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
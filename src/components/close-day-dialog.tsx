@@ -0,0 +1,145 @@
+import { useMemo, useState, type FormEvent } from "react";
+
+import type { ApiClient, DateChange } from "@/lib/api";
+import { notificationFailures, openCheckIns } from "@/lib/attendance";
+import { todayInCentre } from "@/lib/date-range";
+import type { AttendanceRecord } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type CloseDayDialogProps = {
+  api: ApiClient;
+  records: AttendanceRecord[];
+  onArchived: (change: DateChange) => void;
+  onClose: () => void;
+};
+
+export function CloseDayDialog({
+  api,
+  records,
+  onArchived,
+  onClose,
+}: CloseDayDialogProps) {
+  const [confirmed, setConfirmed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { timeZone, t } = useI18n();
+  const date = todayInCentre(timeZone);
+
+  const open = useMemo(() => openCheckIns(records), [records]);
+  const failed = useMemo(() => notificationFailures(records), [records]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onArchived(await api.archiveDay(date));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-lg"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <CardTitle>{t("closeDay.title", { date })}</CardTitle>
+          <CardDescription>
+            {t("closeDay.description", { count: records.length })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium text-slate-700">
+                {t("closeDay.open", { count: open.length })}
+              </h3>
+              {open.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  {t("closeDay.noneOpen")}
+                </p>
+              ) : (
+                <>
+                  <ul className="max-h-32 overflow-auto text-sm text-slate-600">
+                    {open.map((row) => (
+                      <li key={row.id}>{row.student_name}</li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-amber-700">
+                    {t("closeDay.openWarning")}
+                  </p>
+                </>
+              )}
+            </section>
+            <section className="space-y-1">
+              <h3 className="text-sm font-medium text-slate-700">
+                {t("closeDay.failed", { count: failed.length })}
+              </h3>
+              {failed.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  {t("closeDay.noneFailed")}
+                </p>
+              ) : (
+                <ul className="max-h-32 overflow-auto text-sm text-slate-600">
+                  {failed.map((row) => (
+                    <li key={row.id}>
+                      {row.student_name}
+                      <span className="text-slate-400">
+                        {" "}
+                        —{" "}
+                        {row.failed_reason ||
+                          row.parent_notified ||
+                          t("closeDay.notSent")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {failed.length > 0 && (
+                <p className="text-xs text-slate-500">
+                  {t("closeDay.failedHint")}
+                </p>
+              )}
+            </section>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={confirmed}
+                onChange={(e) => setConfirmed(e.target.checked)}
+              />
+              {t("closeDay.confirm")}
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                disabled={!confirmed || busy || records.length === 0}
+              >
+                {busy ? t("closeDay.closing") : t("action.closeDay")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
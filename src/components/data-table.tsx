@@ -0,0 +1,361 @@
+import {
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+} from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export type SortDirection = "asc" | "desc";
+
+export type DataTableColumn<T> = {
+  id: string;
+  header: string;
+  cell: (row: T) => ReactNode;
+  /** Columns without a sort value are not sortable. */
+  sortValue?: (row: T) => string | number | null;
+  className?: string;
+  /** Set to `false` to keep the column out of the show/hide menu. */
+  hideable?: boolean;
+  defaultHidden?: boolean;
+};
+
+type SortState = { columnId: string; direction: SortDirection };
+
+type DataTableProps<T> = {
+  rows: T[];
+  columns: DataTableColumn<T>[];
+  getRowId: (row: T) => string | number;
+  emptyMessage: ReactNode;
+  rowClassName?: (row: T) => string | false | undefined;
+  /** Enter on the focused row. */
+  onRowActivate?: (row: T) => void;
+  initialSort?: SortState;
+  pageSize?: number;
+  /** Rows are virtualized, so every row must render at this height. */
+  rowHeight?: number;
+  maxHeight?: number;
+  className?: string;
+};
+
+const OVERSCAN = 8;
+
+function compareValues(
+  a: string | number | null,
+  b: string | number | null,
+  direction: SortDirection
+) {
+  // Empty values always sort last.
+  if (a === null || a === "") return b === null || b === "" ? 0 : 1;
+  if (b === null || b === "") return -1;
+  const result =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return direction === "asc" ? result : -result;
+}
+
+export function DataTable<T>({
+  rows,
+  columns,
+  getRowId,
+  emptyMessage,
+  rowClassName,
+  onRowActivate,
+  initialSort,
+  pageSize = 100,
+  rowHeight = 41,
+  maxHeight = 420,
+  className,
+}: DataTableProps<T>) {
+  const { t } = useI18n();
+  const [sort, setSort] = useState<SortState | null>(initialSort ?? null);
+  const [hidden, setHidden] = useState<string[]>(() =>
+    columns.filter((column) => column.defaultHidden).map((column) => column.id)
+  );
+  const [columnMenuOpen, setColumnMenuOpen] = useState(false);
+  const [page, setPage] = useState(0);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+
+  const visibleColumns = columns.filter(
+    (column) => !hidden.includes(column.id)
+  );
+
+  const sortedRows = useMemo(() => {
+    const column = sort && columns.find((item) => item.id === sort.columnId);
+    if (!sort || !column?.sortValue) return rows;
+    const value = column.sortValue;
+    return [...rows].sort((a, b) =>
+      compareValues(value(a), value(b), sort.direction)
+    );
+  }, [rows, columns, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStart = currentPage * pageSize;
+  const pageRows = sortedRows.slice(pageStart, pageStart + pageSize);
+  const active =
+    activeIndex !== null && activeIndex < pageRows.length ? activeIndex : null;
+
+  const windowSize = Math.ceil(maxHeight / rowHeight) + OVERSCAN * 2;
+  const windowStart = Math.max(
+    0,
+    Math.floor(scrollTop / rowHeight) - OVERSCAN
+  );
+  const windowEnd = Math.min(pageRows.length, windowStart + windowSize);
+
+  const scrollTo = (top: number) => {
+    if (scrollRef.current) scrollRef.current.scrollTop = top;
+    setScrollTop(top);
+  };
+
+  const goToPage = (next: number) => {
+    setPage(next);
+    setActiveIndex(null);
+    scrollTo(0);
+  };
+
+  const toggleSort = (columnId: string) => {
+    setSort((prev) => {
+      if (prev?.columnId !== columnId) return { columnId, direction: "asc" };
+      return prev.direction === "asc" ? { columnId, direction: "desc" } : null;
+    });
+  };
+
+  const toggleColumn = (columnId: string) => {
+    setHidden((prev) =>
+      prev.includes(columnId)
+        ? prev.filter((id) => id !== columnId)
+        : [...prev, columnId]
+    );
+  };
+
+  const focusRow = (index: number) => {
+    const container = scrollRef.current;
+    setActiveIndex(index);
+    if (!container) return;
+    const headerHeight = headerRef.current?.offsetHeight ?? 0;
+    const top = index * rowHeight;
+    const viewport = container.clientHeight - headerHeight;
+    if (top < container.scrollTop) scrollTo(top);
+    else if (top + rowHeight > container.scrollTop + viewport) {
+      scrollTo(top + rowHeight - viewport);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || !pageRows.length) return;
+    const last = pageRows.length - 1;
+    const screen = Math.max(1, Math.floor(maxHeight / rowHeight) - 1);
+    const moves: Record<string, number> = {
+      ArrowDown: active === null ? 0 : Math.min(active + 1, last),
+      ArrowUp: active === null ? 0 : Math.max(active - 1, 0),
+      PageDown: Math.min((active ?? 0) + screen, last),
+      PageUp: Math.max((active ?? 0) - screen, 0),
+      Home: 0,
+      End: last,
+    };
+    if (event.key in moves) {
+      event.preventDefault();
+      focusRow(moves[event.key]);
+    } else if (event.key === "Enter" && active !== null && onRowActivate) {
+      event.preventDefault();
+      onRowActivate(pageRows[active]);
+    }
+  };
+
+  const hideableColumns = columns.filter(
+    (column) => column.hideable !== false
+  );
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {hideableColumns.length > 0 && (
+        <div className="relative flex justify-end">
+          <Button
+            size="sm"
+            variant="ghost"
+            aria-expanded={columnMenuOpen}
+            onClick={() => setColumnMenuOpen((open) => !open)}
+          >
+            <Columns3 className="h-4 w-4" />
+            {t("table.columns")}
+          </Button>
+          {columnMenuOpen && (
+            <div className="absolute right-0 top-10 z-20 w-48 space-y-1 rounded-md border border-slate-200 bg-white p-2 shadow-md">
+              {hideableColumns.map((column) => (
+                <label
+                  key={column.id}
+                  className="flex items-center gap-2 text-sm text-slate-600"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!hidden.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                  />
+                  {column.header}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <div
+        ref={scrollRef}
+        className="overflow-auto rounded-md border border-slate-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400"
+        style={{ maxHeight }}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <Table className="min-w-[720px]">
+          <TableHeader ref={headerRef} className="sticky top-0 z-10">
+            <TableRow className="border-t-0">
+              {visibleColumns.map((column) => {
+                const direction =
+                  sort?.columnId === column.id ? sort.direction : null;
+                return (
+                  <TableHead
+                    key={column.id}
+                    className={column.className}
+                    aria-sort={
+                      direction === "asc"
+                        ? "ascending"
+                        : direction === "desc"
+                          ? "descending"
+                          : undefined
+                    }
+                  >
+                    {column.sortValue ? (
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 hover:text-slate-900"
+                        onClick={() => toggleSort(column.id)}
+                      >
+                        {column.header}
+                        {direction === "asc" ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : direction === "desc" ? (
+                          <ArrowDown className="h-3 w-3" />
+                        ) : (
+                          <ArrowUpDown className="h-3 w-3 opacity-40" />
+                        )}
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {windowStart > 0 && (
+              <tr aria-hidden style={{ height: windowStart * rowHeight }} />
+            )}
+            {pageRows.slice(windowStart, windowEnd).map((row, i) => {
+              const index = windowStart + i;
+              return (
+                <TableRow
+                  key={getRowId(row)}
+                  aria-selected={index === active}
+                  className={cn(
+                    "whitespace-nowrap transition-colors duration-700",
+                    rowClassName?.(row),
+                    index === active && "bg-slate-100"
+                  )}
+                  style={{ height: rowHeight }}
+                  onClick={() => setActiveIndex(index)}
+                >
+                  {visibleColumns.map((column) => (
+                    <TableCell
+                      key={column.id}
+                      className={cn("text-slate-600", column.className)}
+                    >
+                      {column.cell(row)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+            {windowEnd < pageRows.length && (
+              <tr
+                aria-hidden
+                style={{ height: (pageRows.length - windowEnd) * rowHeight }}
+              />
+            )}
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell
+                  className="py-6 text-center text-slate-500"
+                  colSpan={visibleColumns.length || 1}
+                >
+                  {emptyMessage}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {rows.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>
+            {t("table.range", {
+              from: pageStart + 1,
+              to: pageStart + pageRows.length,
+              total: rows.length,
+            })}
+          </span>
+          {pageCount > 1 && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                aria-label={t("table.previousPage")}
+                disabled={currentPage === 0}
+                onClick={() => goToPage(currentPage - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>
+                {t("table.page", { page: currentPage + 1, count: pageCount })}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                aria-label={t("table.nextPage")}
+                disabled={currentPage === pageCount - 1}
+                onClick={() => goToPage(currentPage + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { auditActionLabels, isAuditAction } from "@/lib/audit";
+import type { AuditEntry } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+
+export type DayActivityEntry = {
+  /** The date acted on, e.g. "2024-05-02" or "2024-05-02 → 2024-05-03". */
+  label: string;
+  audit: AuditEntry;
+};
+
+type DayActivityProps = {
+  entries: DayActivityEntry[];
+};
+
+export function DayActivity({ entries }: DayActivityProps) {
+  const { t, formatDateTime } = useI18n();
+  if (entries.length === 0) return null;
+  return (
+    <ul className="space-y-1 text-xs text-slate-500">
+      {entries.map(({ label, audit }) => (
+        <li key={audit.id}>
+          {t("dayActivity.entry", {
+            action: isAuditAction(audit.action)
+              ? t(auditActionLabels[audit.action])
+              : audit.action,
+            date: label,
+            actor: audit.actor,
+            time: formatDateTime(audit.created_at),
+          })}
+        </li>
+      ))}
+    </ul>
+  );
+}
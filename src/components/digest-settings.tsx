@@ -0,0 +1,234 @@
+import { useState, type FormEvent } from "react";
+
+import type { MessageKey } from "@/lib/i18n";
+import type { MailMessage } from "@/lib/mail-transport";
+import type { DigestSettings, DigestTransport } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const transportLabels: Record<DigestTransport, MessageKey> = {
+  email: "digest.transportEmail",
+  file: "digest.transportFile",
+};
+
+type DigestSettingsCardProps = {
+  settings: DigestSettings;
+  lastSent: string | null;
+  loadError: string | null;
+  onSave: (settings: DigestSettings) => Promise<void>;
+  onSendTest: (
+    settings: DigestSettings,
+    transport: DigestTransport
+  ) => Promise<void>;
+  buildMessage: (settings: DigestSettings) => MailMessage;
+};
+
+export function DigestSettingsCard({
+  settings,
+  lastSent,
+  loadError,
+  onSave,
+  onSendTest,
+  buildMessage,
+}: DigestSettingsCardProps) {
+  const { t } = useI18n();
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [recipients, setRecipients] = useState(settings.recipients.join("\n"));
+  const [sendTime, setSendTime] = useState(settings.send_time);
+  // Only picks how "Send test" delivers; it isn't saved with the settings.
+  const [transport, setTransport] = useState<DigestTransport>("email");
+  const [preview, setPreview] = useState<MailMessage | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const draft = (): DigestSettings => ({
+    enabled,
+    recipients: recipients
+      .split(/[\s,;]+/)
+      .map((email) => email.trim())
+      .filter(Boolean),
+    send_time: sendTime,
+  });
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(done);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const next = draft();
+    const invalid = next.recipients.find(
+      (email) => !EMAIL_PATTERN.test(email)
+    );
+    if (invalid) {
+      setError(t("digest.invalidEmail", { email: invalid }));
+      return;
+    }
+    if (next.enabled && !next.recipients.length) {
+      setError(t("digest.noRecipients"));
+      return;
+    }
+    run(() => onSave(next), t("digest.saved"));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("digest.title")}</CardTitle>
+        <CardDescription>
+          {t("digest.description")}
+          {lastSent && ` ${t("digest.lastSent", { time: lastSent })}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+            {t("digest.enabled")}
+          </label>
+          <div className="space-y-2">
+            <label
+              htmlFor="digest-recipients"
+              className="text-sm font-medium text-slate-700"
+            >
+              {t("digest.recipients")}
+            </label>
+            <textarea
+              id="digest-recipients"
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              rows={3}
+              placeholder={t("digest.recipientsPlaceholder")}
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <label
+                htmlFor="digest-time"
+                className="text-sm font-medium text-slate-700"
+              >
+                {t("digest.sendTime")}
+              </label>
+              <input
+                id="digest-time"
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                type="time"
+                value={sendTime}
+                onChange={(e) => e.target.value && setSendTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label
+                htmlFor="digest-transport"
+                className="text-sm font-medium text-slate-700"
+              >
+                {t("digest.delivery")}
+              </label>
+              <select
+                id="digest-transport"
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={transport}
+                onChange={(e) =>
+                  setTransport(e.target.value === "file" ? "file" : "email")
+                }
+              >
+                {Object.entries(transportLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {t(label)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {(error ?? loadError) && (
+            <p className="text-sm text-red-600">{error ?? loadError}</p>
+          )}
+          {notice && <p className="text-sm text-emerald-700">{notice}</p>}
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setPreview(buildMessage(draft()))}
+            >
+              {t("digest.preview")}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={
+                busy || (transport === "email" && !draft().recipients.length)
+              }
+              onClick={() =>
+                run(() => onSendTest(draft(), transport), t("digest.testSent"))
+              }
+            >
+              {t("digest.sendTest")}
+            </Button>
+            <Button type="submit" disabled={busy}>
+              {busy ? t("common.saving") : t("common.save")}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+      {preview && (
+        <div
+          className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+          onClick={() => setPreview(null)}
+        >
+          <Card
+            className="w-full max-w-2xl"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <CardHeader>
+              <CardTitle>{preview.subject}</CardTitle>
+              <CardDescription>
+                {t("digest.to", {
+                  recipients:
+                    preview.to.join(", ") || t("digest.noRecipientsYet"),
+                })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <iframe
+                title={t("digest.preview")}
+                className="h-[480px] w-full rounded-md border border-slate-200"
+                sandbox=""
+                srcDoc={preview.html}
+              />
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => setPreview(null)}>
+                  {t("common.close")}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </Card>
+  );
+}
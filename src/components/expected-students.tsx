@@ -0,0 +1,58 @@
+import type { Student } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type ExpectedStudentsProps = {
+  absent: Student[];
+  /** Today's records that don't match the roster. */
+  flaggedCount: number;
+  onStudentClick?: (student: Student) => void;
+};
+
+export function ExpectedStudents({
+  absent,
+  flaggedCount,
+  onStudentClick,
+}: ExpectedStudentsProps) {
+  const { t } = useI18n();
+  return (
+    <Card className={cn(absent.length > 0 && "border-sky-300")}>
+      <CardHeader>
+        <CardTitle>{t("expected.title")}</CardTitle>
+        <CardDescription>{t("expected.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {absent.length === 0 ? (
+          <p className="text-sm text-slate-500">{t("expected.empty")}</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2">
+            {absent.map((student) => (
+              <li key={student.id}>
+                <button
+                  type="button"
+                  className="rounded-md bg-sky-50 px-2 py-1 text-sm text-sky-900 enabled:hover:underline"
+                  disabled={!onStudentClick}
+                  onClick={() => onStudentClick?.(student)}
+                >
+                  {student.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {flaggedCount > 0 && (
+          <p className="text-sm text-amber-700">
+            {t("expected.flagged", { count: flaggedCount })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
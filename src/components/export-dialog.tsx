@@ -0,0 +1,251 @@
+import { useState, type FormEvent } from "react";
+
+import type { ApiClient } from "@/lib/api";
+import {
+  presetRange,
+  todayInCentre,
+  type DateRange,
+} from "@/lib/date-range";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  exportRecords,
+  type ExportColumnKey,
+  type ExportFormat,
+} from "@/lib/export";
+import {
+  filterRecords,
+  isFilterActive,
+  type RecordFilter,
+} from "@/lib/record-filter";
+import type { MessageKey } from "@/lib/i18n";
+import type { AttendanceRecord } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const formatLabels: Record<ExportFormat, MessageKey> = {
+  csv: "export.formatCsv",
+  xlsx: "export.formatXlsx",
+  pdf: "export.formatPdf",
+};
+
+type ExportDialogProps = {
+  api: ApiClient;
+  todayRecords: AttendanceRecord[];
+  /** Preselected range; `null` starts on today's records. */
+  initialRange: DateRange | null;
+  /** Active dashboard filters, applied to whichever records are exported. */
+  filter: RecordFilter;
+  onClose: () => void;
+};
+
+export function ExportDialog({
+  api,
+  todayRecords,
+  initialRange,
+  filter,
+  onClose,
+}: ExportDialogProps) {
+  const { locale, timeZone, t } = useI18n();
+  const today = todayInCentre(timeZone);
+  const [source, setSource] = useState<"today" | "range">(
+    initialRange ? "range" : "today"
+  );
+  const [range, setRange] = useState<DateRange>(
+    initialRange ?? presetRange("this-month", today)
+  );
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumnKey[]>(
+    DEFAULT_EXPORT_COLUMNS
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleColumn = (key: ExportColumnKey) => {
+    setColumns((prev) =>
+      prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const records =
+        source === "today"
+          ? todayRecords
+          : await api.getRecordsInRange(range);
+      // Keep the chosen column order stable regardless of click order.
+      const ordered = EXPORT_COLUMNS.map((column) => column.key).filter(
+        (key) => columns.includes(key)
+      );
+      const exported = filterRecords(records, filter, timeZone);
+      await exportRecords(format, {
+        records: exported,
+        columns: ordered,
+        range: source === "range" ? range : undefined,
+        locale,
+        timeZone,
+      });
+      api.logEvent({
+        action: "export",
+        after: {
+          format,
+          range: source === "range" ? range : "today",
+          columns: ordered,
+          records: exported.length,
+        },
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-lg"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <CardTitle>{t("export.title")}</CardTitle>
+          <CardDescription>
+            {t("export.description")}
+            {isFilterActive(filter) && ` ${t("export.filtersApplied")}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">
+                {t("export.records")}
+              </label>
+              <select
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={source}
+                onChange={(e) =>
+                  setSource(e.target.value === "range" ? "range" : "today")
+                }
+              >
+                <option value="today">
+                  {t("export.today", { date: today })}
+                </option>
+                <option value="range">{t("export.archivedRange")}</option>
+              </select>
+            </div>
+            {source === "range" && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRange(presetRange("this-month", today))}
+                  >
+                    {t("export.thisMonth")}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setRange(presetRange("last-30-days", today))
+                    }
+                  >
+                    {t("history.last30Days")}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                    type="date"
+                    aria-label={t("history.from")}
+                    value={range.from}
+                    max={range.to}
+                    onChange={(e) =>
+                      e.target.value &&
+                      setRange({ ...range, from: e.target.value })
+                    }
+                  />
+                  <input
+                    className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                    type="date"
+                    aria-label={t("history.to")}
+                    value={range.to}
+                    min={range.from}
+                    onChange={(e) =>
+                      e.target.value &&
+                      setRange({ ...range, to: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">
+                {t("export.format")}
+              </label>
+              <select
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              >
+                {Object.entries(formatLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {t(label)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-slate-700">
+                {t("table.columns")}
+              </legend>
+              <div className="grid grid-cols-2 gap-2">
+                {EXPORT_COLUMNS.map((column) => (
+                  <label
+                    key={column.key}
+                    className="flex items-center gap-2 text-sm text-slate-600"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                    />
+                    {t(column.label)}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                disabled={busy || (format !== "pdf" && columns.length === 0)}
+              >
+                {busy ? t("export.exporting") : t("action.export")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
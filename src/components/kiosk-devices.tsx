@@ -0,0 +1,152 @@
+import { useEffect, useState, type FormEvent } from "react";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import { kioskUrl } from "@/lib/kiosk";
+import type { KioskDevice } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type KioskDevicesProps = {
+  api: ApiClient;
+};
+
+export function KioskDevices({ api }: KioskDevicesProps) {
+  const { t, formatDateTime } = useI18n();
+  const [devices, setDevices] = useState<KioskDevice[] | null>(null);
+  const [label, setLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The pairing link for a just-created device; the server won't return it
+  // again.
+  const [pairingLink, setPairingLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .getKioskDevices(controller.signal)
+      .then(setDevices)
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api]);
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const { device, token } = await api.createKioskDevice(label.trim());
+      setDevices((prev) => [...(prev ?? []), device]);
+      setPairingLink(kioskUrl(token));
+      setLabel("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (device: KioskDevice) => {
+    const message = t("kioskDevices.confirmUnpair", { label: device.label });
+    if (!window.confirm(message)) return;
+    setError(null);
+    try {
+      await api.revokeKioskDevice(device);
+      setDevices((prev) =>
+        (prev ?? []).filter((row) => row.id !== device.id)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("kioskDevices.title")}</CardTitle>
+        <CardDescription>{t("kioskDevices.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <form className="flex gap-2" onSubmit={handleCreate}>
+          <input
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            placeholder={t("kioskDevices.namePlaceholder")}
+            aria-label={t("kioskDevices.name")}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            required
+          />
+          <Button type="submit" disabled={busy || !label.trim()}>
+            {t("kioskDevices.add")}
+          </Button>
+        </form>
+        {pairingLink && (
+          <div className="space-y-2 rounded-md bg-emerald-50 p-3 text-sm">
+            <p className="text-emerald-700">
+              {t("kioskDevices.pairingLink")}
+            </p>
+            <div className="flex gap-2">
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 font-mono text-xs"
+                readOnly
+                value={pairingLink}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  navigator.clipboard
+                    .writeText(pairingLink)
+                    .catch(() => undefined)
+                }
+              >
+                {t("kioskDevices.copy")}
+              </Button>
+            </div>
+          </div>
+        )}
+        <ul className="divide-y rounded-md border border-slate-200 text-sm">
+          {(devices ?? []).map((device) => (
+            <li
+              key={device.id}
+              className="flex items-center justify-between gap-3 px-3 py-2"
+            >
+              <div>
+                <p className="font-medium text-slate-800">{device.label}</p>
+                <p className="text-xs text-slate-500">
+                  {device.last_seen_at
+                    ? t("kioskDevices.lastSeen", {
+                        time: formatDateTime(device.last_seen_at),
+                      })
+                    : t("kioskDevices.notSeen")}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revoke(device)}
+              >
+                {t("kioskDevices.unpair")}
+              </Button>
+            </li>
+          ))}
+          {devices?.length === 0 && (
+            <li className="px-3 py-6 text-center text-slate-500">
+              {t("kioskDevices.empty")}
+            </li>
+          )}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
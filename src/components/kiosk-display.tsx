@@ -0,0 +1,195 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type FormEvent,
+} from "react";
+
+import { createApiClient, type ApiClient } from "@/lib/api";
+import { intlLocale } from "@/lib/i18n";
+import {
+  clearKioskToken,
+  readKioskToken,
+  saveKioskToken,
+  takeTokenFromHash,
+} from "@/lib/kiosk";
+import { resolveTimeZone } from "@/lib/timezone";
+import { createI18n, I18nContext, useI18n } from "@/hooks/use-i18n";
+import { useKioskEntries } from "@/hooks/use-kiosk-entries";
+import { useLocale } from "@/hooks/use-locale";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { LanguageSelect } from "@/components/language-select";
+
+// A kiosk sits in its centre, so the device clock's zone is the centre's.
+const KIOSK_TIME_ZONE = resolveTimeZone(
+  Intl.DateTimeFormat().resolvedOptions().timeZone
+);
+
+/**
+ * Read-only "who's here now" screen for a lobby display. It signs in with a
+ * device token rather than a staff session and has no way to reach the
+ * dashboard.
+ */
+export function KioskDisplay() {
+  const [locale, setLocale] = useLocale(null);
+  const i18n = useMemo(
+    () => createI18n(locale, setLocale, KIOSK_TIME_ZONE),
+    [locale, setLocale]
+  );
+  const [token, setToken] = useState(
+    () => takeTokenFromHash() ?? readKioskToken()
+  );
+  const [revoked, setRevoked] = useState(false);
+
+  useEffect(() => {
+    document.documentElement.lang = intlLocale(locale);
+  }, [locale]);
+
+  const api = useMemo(
+    () => (token ? createApiClient({ token }) : null),
+    [token]
+  );
+
+  const unpair = useCallback(() => {
+    clearKioskToken();
+    setToken(null);
+    setRevoked(true);
+  }, []);
+
+  const pair = (next: string) => {
+    saveKioskToken(next);
+    setRevoked(false);
+    setToken(next);
+  };
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      {api ? (
+        <KioskBoard api={api} onRevoked={unpair} />
+      ) : (
+        <KioskPairing revoked={revoked} onPair={pair} />
+      )}
+    </I18nContext.Provider>
+  );
+}
+
+function elapsedMinutes(checkinTime: string, now: number) {
+  return Math.max(0, Math.floor((now - Date.parse(checkinTime)) / 60000));
+}
+
+type KioskBoardProps = {
+  api: ApiClient;
+  onRevoked: () => void;
+};
+
+function KioskBoard({ api, onRevoked }: KioskBoardProps) {
+  const { t, formatDuration, formatDateTime } = useI18n();
+  const { entries, ready, updatedAt, error } = useKioskEntries(api, onRevoked);
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-8">
+      <header className="mb-8 flex items-center justify-between gap-4">
+        <h1 className="text-4xl font-semibold text-slate-900">
+          {t("kiosk.title")}
+        </h1>
+        <LanguageSelect />
+      </header>
+      {!ready ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="py-24 text-center text-2xl text-slate-500">
+          {t("kiosk.empty")}
+        </p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {entries.map((entry, i) => (
+            <div
+              key={`${i}-${entry.studentName}`}
+              className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm"
+            >
+              <p className="text-3xl font-semibold text-slate-900">
+                {entry.studentName}
+              </p>
+              {entry.checkinTime && (
+                <p className="mt-2 text-lg text-slate-600">
+                  {t("kiosk.elapsed", {
+                    duration: formatDuration(
+                      elapsedMinutes(entry.checkinTime, updatedAt)
+                    ),
+                  })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <footer className="mt-8 text-sm text-slate-400">
+        {error
+          ? t("kiosk.stale", { error })
+          : t("kiosk.updated", {
+              time: formatDateTime(new Date(updatedAt).toISOString()),
+            })}
+      </footer>
+    </div>
+  );
+}
+
+type KioskPairingProps = {
+  revoked: boolean;
+  onPair: (token: string) => void;
+};
+
+function KioskPairing({ revoked, onPair }: KioskPairingProps) {
+  const { t } = useI18n();
+  const [token, setToken] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (token.trim()) onPair(token.trim());
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t("kiosk.pairTitle")}</CardTitle>
+          <CardDescription>{t("kiosk.pairDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            {revoked && (
+              <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                {t("kiosk.revoked")}
+              </p>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">
+                {t("kiosk.token")}
+              </label>
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                autoComplete="off"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full">
+              {t("kiosk.pair")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
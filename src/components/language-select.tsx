@@ -0,0 +1,24 @@
+import { LOCALES, localeNames, type Locale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+
+export function LanguageSelect({ className }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <select
+      className={cn(
+        "rounded-md border border-slate-300 px-3 py-2 text-sm",
+        className
+      )}
+      aria-label={t("app.language")}
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+    >
+      {LOCALES.map((value) => (
+        <option key={value} value={value} lang={value}>
+          {localeNames[value]}
+        </option>
+      ))}
+    </select>
+  );
+}
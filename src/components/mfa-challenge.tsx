@@ -0,0 +1,81 @@
+import { useState, type FormEvent } from "react";
+
+import { supabase } from "@/lib/supabase";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type MfaChallengeProps = {
+  onCancel: () => void;
+};
+
+/** Second sign-in step for accounts with a verified TOTP factor. */
+export function MfaChallenge({ onCancel }: MfaChallengeProps) {
+  const { t } = useI18n();
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setLoading(true);
+    setError(null);
+    const { data, error: listError } = await supabase.auth.mfa.listFactors();
+    const factor = data?.totp[0];
+    if (listError || !factor) {
+      setError(listError?.message ?? t("mfa.noFactor"));
+      setLoading(false);
+      return;
+    }
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: factor.id,
+      code: code.trim(),
+    });
+    if (error) setError(error.message);
+    setLoading(false);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t("mfa.title")}</CardTitle>
+          <CardDescription>{t("mfa.challengeDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <input
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-center text-lg tracking-widest"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              pattern="[0-9]{6}"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              aria-label={t("mfa.code")}
+              autoFocus
+              required
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? t("mfa.verifying") : t("mfa.verify")}
+            </Button>
+            <button
+              type="button"
+              className="w-full text-sm text-slate-600 underline"
+              onClick={onCancel}
+            >
+              {t("mfa.differentAccount")}
+            </button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
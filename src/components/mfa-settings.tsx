@@ -0,0 +1,158 @@
+import { useEffect, useState, type FormEvent } from "react";
+
+import { supabase } from "@/lib/supabase";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type Enrollment = { factorId: string; qrCode: string; secret: string };
+
+type MfaSettingsProps = {
+  onClose: () => void;
+};
+
+/** Lets the signed-in user add or remove a TOTP authenticator app. */
+export function MfaSettings({ onClose }: MfaSettingsProps) {
+  const { t } = useI18n();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.mfa.listFactors().then(({ data, error }) => {
+      if (error) setError(error.message);
+      setFactorId(data?.totp[0]?.id ?? null);
+      setLoaded(true);
+    });
+  }, []);
+
+  const startEnrollment = async () => {
+    setBusy(true);
+    setError(null);
+    // Drop half-finished enrolments so a fresh QR code can be issued.
+    const { data: factors } = await supabase.auth.mfa.listFactors();
+    await Promise.all(
+      (factors?.all ?? [])
+        .filter((factor) => factor.status === "unverified")
+        .map((factor) => supabase.auth.mfa.unenroll({ factorId: factor.id }))
+    );
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: "totp",
+      friendlyName: "Authenticator app",
+    });
+    if (error) setError(error.message);
+    else {
+      setEnrollment({
+        factorId: data.id,
+        qrCode: data.totp.qr_code,
+        secret: data.totp.secret,
+      });
+    }
+    setBusy(false);
+  };
+
+  const verifyEnrollment = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!enrollment) return;
+    setBusy(true);
+    setError(null);
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: enrollment.factorId,
+      code: code.trim(),
+    });
+    if (error) setError(error.message);
+    else {
+      setFactorId(enrollment.factorId);
+      setEnrollment(null);
+      setCode("");
+    }
+    setBusy(false);
+  };
+
+  const removeFactor = async () => {
+    if (!factorId) return;
+    if (!window.confirm(t("mfa.confirmTurnOff"))) return;
+    setBusy(true);
+    setError(null);
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+    if (error) setError(error.message);
+    else setFactorId(null);
+    setBusy(false);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-md"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <CardTitle>{t("mfa.title")}</CardTitle>
+          <CardDescription>
+            {factorId ? t("mfa.enabledDescription") : t("mfa.offDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!loaded && (
+            <p className="text-sm text-slate-500">{t("common.loading")}</p>
+          )}
+          {enrollment && (
+            <form className="space-y-4" onSubmit={verifyEnrollment}>
+              <p className="text-sm text-slate-700">{t("mfa.scan")}</p>
+              <img
+                src={enrollment.qrCode}
+                alt={t("mfa.qrCode")}
+                className="mx-auto h-44 w-44"
+              />
+              <p className="break-all text-center font-mono text-xs text-slate-500">
+                {enrollment.secret}
+              </p>
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-center text-lg tracking-widest"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="[0-9]{6}"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                aria-label={t("mfa.code")}
+                required
+              />
+              <Button type="submit" className="w-full" disabled={busy}>
+                {busy ? t("mfa.verifying") : t("mfa.turnOn")}
+              </Button>
+            </form>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            {loaded && !enrollment && !factorId && (
+              <Button disabled={busy} onClick={startEnrollment}>
+                {t("mfa.setUp")}
+              </Button>
+            )}
+            {loaded && factorId && (
+              <Button variant="outline" disabled={busy} onClick={removeFactor}>
+                {t("mfa.turnOff")}
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose}>
+              {t("common.close")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
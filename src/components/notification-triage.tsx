@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react";
+
+import type { ApiClient } from "@/lib/api";
+import { CONTACTED_MANUALLY, notificationFailures } from "@/lib/attendance";
+import type { MessageKey } from "@/lib/i18n";
+import type {
+  AttendanceRecord,
+  AuditEntry,
+  NotificationAction,
+} from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const actionLabels: Record<NotificationAction, MessageKey> = {
+  resend: "triage.resent",
+  contacted_manually: "triage.markedContacted",
+};
+
+function isNotificationAction(value: string): value is NotificationAction {
+  return Object.hasOwn(actionLabels, value);
+}
+
+type NotificationTriageProps = {
+  api: ApiClient;
+  records: AttendanceRecord[];
+  onRecordUpdated: (record: AttendanceRecord) => void;
+};
+
+export function NotificationTriage({
+  api,
+  records,
+  onRecordUpdated,
+}: NotificationTriageProps) {
+  const { t, formatDateTime } = useI18n();
+  const [pendingIds, setPendingIds] = useState<Set<number>>(() => new Set());
+  const [audits, setAudits] = useState<Record<number, AuditEntry>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    const byReason = new Map<string, AttendanceRecord[]>();
+    notificationFailures(records).forEach((row) => {
+      const reason = row.failed_reason ?? "";
+      byReason.set(reason, [...(byReason.get(reason) ?? []), row]);
+    });
+    return [...byReason.entries()].sort((a, b) => b[1].length - a[1].length);
+  }, [records]);
+
+  const contactedRows = useMemo(
+    () => records.filter((row) => row.parent_notified === CONTACTED_MANUALLY),
+    [records]
+  );
+
+  const auditLine = (audit: AuditEntry) =>
+    t("triage.auditLine", {
+      action: isNotificationAction(audit.action)
+        ? t(actionLabels[audit.action])
+        : audit.action,
+      actor: audit.actor,
+      time: formatDateTime(audit.created_at),
+    });
+
+  const runAction = async (
+    row: AttendanceRecord,
+    action: NotificationAction
+  ) => {
+    setPendingIds((prev) => new Set(prev).add(row.id));
+    setError(null);
+    try {
+      const { record, audit } = await api.updateNotification(row, action);
+      onRecordUpdated(record);
+      setAudits((prev) => ({ ...prev, [row.id]: audit }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPendingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(row.id);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("triage.title")}</CardTitle>
+        <CardDescription>{t("triage.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {groups.length === 0 && (
+          <p className="text-sm text-slate-500">{t("triage.empty")}</p>
+        )}
+        {groups.map(([reason, rows]) => (
+          <div key={reason}>
+            <h4 className="mb-2 text-sm font-medium text-slate-700">
+              {reason || t("triage.noReason")}{" "}
+              <span className="text-slate-500">({rows.length})</span>
+            </h4>
+            <div className="overflow-x-auto rounded-md border border-slate-200">
+              <table className="min-w-[720px] w-full text-sm">
+                <thead className="bg-slate-100 text-left text-slate-600">
+                  <tr>
+                    <th className="px-3 py-2">{t("column.student")}</th>
+                    <th className="px-3 py-2">{t("column.date")}</th>
+                    <th className="px-3 py-2">{t("column.notified")}</th>
+                    <th className="px-3 py-2">{t("column.checkIn")}</th>
+                    <th className="px-3 py-2 text-right">
+                      {t("column.actions")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const pending = pendingIds.has(row.id);
+                    const audit = audits[row.id];
+                    return (
+                      <tr key={row.id} className="border-t">
+                        <td className="px-3 py-2 font-medium text-slate-800">
+                          {row.student_name}
+                        </td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {row.date ?? "-"}
+                        </td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {row.parent_notified ?? "-"}
+                          {audit && (
+                            <p className="text-xs text-slate-500">
+                              {auditLine(audit)}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {formatDateTime(row.checkin_time)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={pending}
+                              onClick={() => runAction(row, "resend")}
+                            >
+                              {t("triage.resend")}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={pending}
+                              onClick={() =>
+                                runAction(row, "contacted_manually")
+                              }
+                            >
+                              {t("triage.contactedManually")}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+        {contactedRows.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-sm font-medium text-slate-700">
+              {t("triage.contactedManually")}{" "}
+              <span className="text-slate-500">({contactedRows.length})</span>
+            </summary>
+            <ul className="mt-2 divide-y rounded-md border border-slate-200 text-sm">
+              {contactedRows.map((row) => {
+                const audit = audits[row.id];
+                return (
+                  <li key={row.id} className="px-3 py-2">
+                    <span className="font-medium text-slate-800">
+                      {row.student_name}
+                    </span>{" "}
+                    <span className="text-slate-500">
+                      {row.date ?? formatDateTime(row.checkin_time)}
+                    </span>
+                    {audit && (
+                      <p className="text-xs text-slate-500">
+                        {auditLine(audit)}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, type FormEvent } from "react";
+
+import { supabase } from "@/lib/supabase";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/** Shown after following a reset link; saving moves on to the dashboard. */
+export function PasswordRecovery() {
+  const { t } = useI18n();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(t("recovery.tooShort", { count: MIN_PASSWORD_LENGTH }));
+      return;
+    }
+    if (password !== confirm) {
+      setError(t("recovery.mismatch"));
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const { error } = await supabase.auth.updateUser({ password });
+    if (error) setError(error.message);
+    setLoading(false);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t("recovery.title")}</CardTitle>
+          <CardDescription>{t("recovery.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label
+                htmlFor="new-password"
+                className="text-sm font-medium text-slate-700"
+              >
+                {t("recovery.newPassword")}
+              </label>
+              <input
+                id="new-password"
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label
+                htmlFor="confirm-password"
+                className="text-sm font-medium text-slate-700"
+              >
+                {t("recovery.confirmPassword")}
+              </label>
+              <input
+                id="confirm-password"
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                type="password"
+                autoComplete="new-password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? t("common.saving") : t("recovery.save")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import {
+  EMPTY_FILTER,
+  isFilterActive,
+  NO_FAILED_REASON,
+  type RecordFilter,
+} from "@/lib/record-filter";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+
+const inputClass =
+  "w-full rounded-md border border-slate-300 px-3 py-2 text-sm";
+
+type RecordFilterBarProps = {
+  filter: RecordFilter;
+  /** `replace` is set for keystroke-level changes such as typing a search. */
+  onChange: (patch: Partial<RecordFilter>, replace?: boolean) => void;
+  /** Reasons offered in the failed-reason filter; `null` hides the filter. */
+  failedReasons: string[] | null;
+};
+
+function toMinutes(value: string) {
+  if (!value) return null;
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+}
+
+export function RecordFilterBar({
+  filter,
+  onChange,
+  failedReasons,
+}: RecordFilterBarProps) {
+  const { t } = useI18n();
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="grid gap-3 md:grid-cols-3">
+        <input
+          className={inputClass}
+          placeholder={t("filter.search")}
+          value={filter.search}
+          onChange={(e) => onChange({ search: e.target.value }, true)}
+        />
+        <select
+          className={inputClass}
+          value={filter.status}
+          onChange={(e) => onChange({ status: e.target.value })}
+        >
+          <option value="all">{t("filter.allStatus")}</option>
+          <option value="checked_in">{t("filter.checkedIn")}</option>
+          <option value="checked_out">{t("filter.checkedOut")}</option>
+        </select>
+        <select
+          className={inputClass}
+          value={filter.notified}
+          onChange={(e) => onChange({ notified: e.target.value })}
+        >
+          <option value="all">{t("filter.allNotifications")}</option>
+          <option value="yes">{t("filter.notified")}</option>
+          <option value="no">{t("filter.notNotified")}</option>
+        </select>
+      </div>
+      <div className="grid gap-3 md:grid-cols-3">
+        {failedReasons && (
+          <select
+            className={inputClass}
+            aria-label={t("filter.failedReason")}
+            value={filter.failedReason}
+            onChange={(e) => onChange({ failedReason: e.target.value })}
+          >
+            <option value="all">{t("filter.allFailureReasons")}</option>
+            <option value={NO_FAILED_REASON}>{t("filter.noFailure")}</option>
+            {failedReasons.map((reason) => (
+              <option key={reason} value={reason}>
+                {reason}
+              </option>
+            ))}
+          </select>
+        )}
+        <div className="flex items-center gap-2">
+          <input
+            className={inputClass}
+            type="number"
+            min={0}
+            placeholder={t("filter.minMinutesPlaceholder")}
+            aria-label={t("filter.minMinutes")}
+            value={filter.minMinutes ?? ""}
+            onChange={(e) =>
+              onChange({ minMinutes: toMinutes(e.target.value) }, true)
+            }
+          />
+          <span className="text-slate-400">-</span>
+          <input
+            className={inputClass}
+            type="number"
+            min={0}
+            placeholder={t("filter.maxMinutesPlaceholder")}
+            aria-label={t("filter.maxMinutes")}
+            value={filter.maxMinutes ?? ""}
+            onChange={(e) =>
+              onChange({ maxMinutes: toMinutes(e.target.value) }, true)
+            }
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            className={inputClass}
+            type="time"
+            aria-label={t("filter.checkedInFrom")}
+            value={filter.checkinFrom ?? ""}
+            onChange={(e) => onChange({ checkinFrom: e.target.value || null })}
+          />
+          <span className="text-slate-400">-</span>
+          <input
+            className={inputClass}
+            type="time"
+            aria-label={t("filter.checkedInUntil")}
+            value={filter.checkinTo ?? ""}
+            onChange={(e) => onChange({ checkinTo: e.target.value || null })}
+          />
+        </div>
+      </div>
+      {isFilterActive(filter) && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onChange(EMPTY_FILTER)}
+        >
+          {t("filter.clear")}
+        </Button>
+      )}
+    </div>
+  );
+}
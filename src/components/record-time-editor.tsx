@@ -0,0 +1,114 @@
+import { useState, type FormEvent } from "react";
+
+import {
+  fromCentreTime,
+  toCentreDate,
+  toCentreTime,
+} from "@/lib/attendance";
+import { todayInCentre } from "@/lib/date-range";
+import type { AttendanceRecord } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type RecordTimeEditorProps = {
+  record: AttendanceRecord;
+  onSave: (checkinTime: string | null, checkoutTime: string | null) => void;
+  onClose: () => void;
+};
+
+export function RecordTimeEditor({
+  record,
+  onSave,
+  onClose,
+}: RecordTimeEditorProps) {
+  const { timeZone, t } = useI18n();
+  const [checkin, setCheckin] = useState(
+    toCentreTime(record.checkin_time, timeZone)
+  );
+  const [checkout, setCheckout] = useState(
+    toCentreTime(record.checkout_time, timeZone)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const day =
+    record.date ??
+    toCentreDate(record.checkin_time, timeZone) ??
+    todayInCentre(timeZone);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!checkin) {
+      setError(t("timeEditor.checkinRequired"));
+      return;
+    }
+    if (checkout && checkout < checkin) {
+      setError(t("timeEditor.checkoutBeforeCheckin"));
+      return;
+    }
+    onSave(
+      fromCentreTime(day, checkin, timeZone),
+      checkout ? fromCentreTime(day, checkout, timeZone) : null
+    );
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-sm"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <CardTitle>{record.student_name}</CardTitle>
+          <CardDescription>
+            {t("timeEditor.description", { date: day })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">
+                {t("action.checkIn")}
+              </label>
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                type="time"
+                value={checkin}
+                onChange={(e) => setCheckin(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">
+                {t("action.checkOut")}
+              </label>
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                type="time"
+                value={checkout}
+                onChange={(e) => setCheckout(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit">{t("common.save")}</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
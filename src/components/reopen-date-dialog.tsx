@@ -0,0 +1,142 @@
+import { useState, type FormEvent } from "react";
+
+import type { ApiClient, DateChange } from "@/lib/api";
+import type { AttendanceDate } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type ReopenDateDialogProps = {
+  api: ApiClient;
+  date: AttendanceDate;
+  dates: AttendanceDate[];
+  /** Records already in the current day, which a reopen would join. */
+  currentCount: number;
+  onChanged: (change: DateChange) => void;
+  onClose: () => void;
+};
+
+export function ReopenDateDialog({
+  api,
+  date,
+  dates,
+  currentCount,
+  onChanged,
+  onClose,
+}: ReopenDateDialogProps) {
+  const { t } = useI18n();
+  const targets = dates.filter((item) => item.id !== date.id);
+  const [mode, setMode] = useState<"reopen" | "merge">("reopen");
+  const [into, setInto] = useState(targets[0]?.date ?? "");
+  const [confirmed, setConfirmed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      onChanged(
+        mode === "reopen"
+          ? await api.reopenDate(date)
+          : await api.mergeDate(date, into)
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-md"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <CardTitle>{t("reopen.title", { date: date.date })}</CardTitle>
+          <CardDescription>{t("reopen.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <label className="flex items-start gap-2 text-sm text-slate-700">
+              <input
+                type="radio"
+                name="reopen-mode"
+                className="mt-1"
+                checked={mode === "reopen"}
+                onChange={() => setMode("reopen")}
+              />
+              <span>
+                {t("reopen.reopenOption")}
+                {currentCount > 0 && (
+                  <span className="block text-xs text-amber-700">
+                    {t("reopen.currentWarning", { count: currentCount })}
+                  </span>
+                )}
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-slate-700">
+              <input
+                type="radio"
+                name="reopen-mode"
+                className="mt-1"
+                checked={mode === "merge"}
+                disabled={targets.length === 0}
+                onChange={() => setMode("merge")}
+              />
+              <span>{t("reopen.mergeOption")}</span>
+            </label>
+            {mode === "merge" && (
+              <select
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                aria-label={t("reopen.mergeInto")}
+                value={into}
+                onChange={(e) => setInto(e.target.value)}
+              >
+                {targets.map((item) => (
+                  <option key={item.id} value={item.date}>
+                    {item.date}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={confirmed}
+                onChange={(e) => setConfirmed(e.target.checked)}
+              />
+              {t("reopen.confirm", { date: date.date })}
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                disabled={!confirmed || busy || (mode === "merge" && !into)}
+              >
+                {busy
+                  ? t("common.saving")
+                  : t(mode === "reopen" ? "reopen.reopen" : "reopen.merge")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
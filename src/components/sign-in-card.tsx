@@ -0,0 +1,168 @@
+import { useState, type FormEvent } from "react";
+
+import type { MessageKey } from "@/lib/i18n";
+import { supabase } from "@/lib/supabase";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { LanguageSelect } from "@/components/language-select";
+
+type SignInMode = "password" | "magic-link" | "reset";
+
+const modeDescriptions: Record<SignInMode, MessageKey> = {
+  password: "signIn.passwordDescription",
+  "magic-link": "signIn.magicLinkDescription",
+  reset: "signIn.resetDescription",
+};
+
+type SignInCardProps = {
+  /** Shown above the form, e.g. after an idle or expired sign-out. */
+  notice?: string | null;
+};
+
+export function SignInCard({ notice }: SignInCardProps) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<SignInMode>("password");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState<string | null>(null);
+
+  const switchMode = (next: SignInMode) => {
+    setMode(next);
+    setError(null);
+    setSent(null);
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSent(null);
+    // Keeps the tab and history range from the URL across the email link.
+    const redirectTo =
+      window.location.origin +
+      window.location.pathname +
+      window.location.search;
+    if (mode === "password") {
+      const { error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+      if (error) setError(error.message);
+    } else if (mode === "magic-link") {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+      });
+      if (error) setError(error.message);
+      else setSent(t("signIn.magicLinkSent", { email }));
+    } else {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo,
+      });
+      if (error) setError(error.message);
+      else setSent(t("signIn.resetSent", { email }));
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <CardTitle>{t("signIn.title")}</CardTitle>
+            <LanguageSelect className="py-1 text-xs" />
+          </div>
+          <CardDescription>{t(modeDescriptions[mode])}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            {notice && (
+              <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                {notice}
+              </p>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">
+                {t("signIn.email")}
+              </label>
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            {mode === "password" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-700">
+                  {t("signIn.password")}
+                </label>
+                <input
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {sent && <p className="text-sm text-emerald-700">{sent}</p>}
+            <Button type="submit" className="w-full" disabled={loading}>
+              {mode === "password"
+                ? t(loading ? "signIn.submitting" : "signIn.submit")
+                : loading
+                  ? t("signIn.sending")
+                  : t(
+                      mode === "reset"
+                        ? "signIn.sendReset"
+                        : "signIn.sendMagicLink"
+                    )}
+            </Button>
+            <div className="flex flex-wrap justify-between gap-2 text-sm">
+              {mode === "password" ? (
+                <>
+                  <button
+                    type="button"
+                    className="text-slate-600 underline"
+                    onClick={() => switchMode("reset")}
+                  >
+                    {t("signIn.forgotPassword")}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-slate-600 underline"
+                    onClick={() => switchMode("magic-link")}
+                  >
+                    {t("signIn.useMagicLink")}
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  className="text-slate-600 underline"
+                  onClick={() => switchMode("password")}
+                >
+                  {t("signIn.backToPassword")}
+                </button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, type FormEvent } from "react";
+
+import { weekdayLabel } from "@/lib/date-range";
+import type { Student, StudentInput } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+/** Sunday first, matching `dayOfWeek`. */
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+type StudentEditorProps = {
+  /** `null` adds a new student. */
+  student: Student | null;
+  onSave: (input: StudentInput) => Promise<void>;
+  onClose: () => void;
+};
+
+export function StudentEditor({
+  student,
+  onSave,
+  onClose,
+}: StudentEditorProps) {
+  const { locale, t } = useI18n();
+  const [name, setName] = useState(student?.name ?? "");
+  const [days, setDays] = useState<number[]>(student?.scheduled_days ?? []);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDay = (day: number) => {
+    setDays((prev) =>
+      prev.includes(day)
+        ? prev.filter((item) => item !== day)
+        : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      setError(t("students.nameRequired"));
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await onSave({ name: name.trim(), scheduled_days: days });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-sm"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <CardTitle>
+            {t(student ? "students.editTitle" : "students.addTitle")}
+          </CardTitle>
+          <CardDescription>{t("students.editorDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label
+                htmlFor="student-name"
+                className="text-sm font-medium text-slate-700"
+              >
+                {t("students.name")}
+              </label>
+              <input
+                id="student-name"
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-slate-700">
+                {t("students.scheduledDays")}
+              </legend>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map((day) => (
+                  <label
+                    key={day}
+                    className="flex items-center gap-1 text-sm text-slate-600"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={days.includes(day)}
+                      onChange={() => toggleDay(day)}
+                    />
+                    {weekdayLabel(day, locale)}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={busy}>
+                {t(busy ? "common.saving" : "common.save")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import { isNotified } from "@/lib/attendance";
+import { recordMinutes } from "@/lib/duration";
+import { addDays, dayOfWeek, todayInCentre } from "@/lib/date-range";
+import type { AttendanceDate, AttendanceRecord } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+
+const HEATMAP_WEEKS = 16;
+
+type Visit = { date: string; record: AttendanceRecord };
+
+type StudentProfileProps = {
+  api: ApiClient;
+  studentId: number;
+  studentName: string;
+  dates: AttendanceDate[];
+  onClose: () => void;
+};
+
+/** `null` minutes means the student attended but the duration is unknown. */
+function heatmapColor(minutes: number | null | undefined, archived: boolean) {
+  if (minutes === undefined) return archived ? "bg-slate-200" : "bg-slate-50";
+  if (minutes === null) return "bg-emerald-300";
+  if (minutes >= 60) return "bg-emerald-700";
+  if (minutes >= 30) return "bg-emerald-500";
+  return "bg-emerald-300";
+}
+
+export function StudentProfile({
+  api,
+  studentId,
+  studentName,
+  dates,
+  onClose,
+}: StudentProfileProps) {
+  const { timeZone, t, formatNumber, formatDuration } = useI18n();
+  const [visits, setVisits] = useState<Visit[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .getStudentRecords(studentId, controller.signal)
+      .then((records) => {
+        const found = records.map((record) => ({
+          date: record.date ?? "",
+          record,
+        }));
+        found.sort((a, b) => a.date.localeCompare(b.date));
+        setVisits(found);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api, studentId]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const stats = useMemo(() => {
+    if (!visits) return null;
+    const month = todayInCentre(timeZone).slice(0, 7);
+    const timed = visits
+      .map((v) => ({ date: v.date, minutes: recordMinutes(v.record) }))
+      .filter((v): v is { date: string; minutes: number } => v.minutes !== null);
+    const minutes = timed.map((v) => v.minutes);
+    const total = minutes.reduce((sum, m) => sum + m, 0);
+    const notified = visits.filter((v) =>
+      isNotified(v.record.parent_notified)
+    ).length;
+
+    // Least-squares slope of minutes over visit index.
+    const n = minutes.length;
+    const meanX = (n - 1) / 2;
+    const meanY = n ? total / n : 0;
+    let num = 0;
+    let den = 0;
+    minutes.forEach((m, i) => {
+      num += (i - meanX) * (m - meanY);
+      den += (i - meanX) ** 2;
+    });
+    const slope = den ? num / den : 0;
+
+    const reasons = new Map<string, number>();
+    visits.forEach((v) => {
+      const reason = v.record.failed_reason;
+      if (reason) reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+    });
+
+    return {
+      thisMonth: visits.filter((v) => v.date.startsWith(month)).length,
+      attendanceRate: dates.length ? visits.length / dates.length : 0,
+      averageMinutes: meanY,
+      slope,
+      notifiedRate: visits.length ? notified / visits.length : 0,
+      failedReasons: [...reasons.entries()].sort((a, b) => b[1] - a[1]),
+      trendData: timed.map((v) => ({
+        name: v.date,
+        value: Math.round(v.minutes),
+      })),
+    };
+  }, [visits, dates.length, timeZone]);
+
+  const heatmap = useMemo(() => {
+    const archived = new Set(dates.map((d) => d.date));
+    const minutesByDate = new Map(
+      (visits ?? []).map((v) => [v.date, recordMinutes(v.record)])
+    );
+    const today = todayInCentre(timeZone);
+    const start = addDays(
+      today,
+      -((HEATMAP_WEEKS - 1) * 7 + dayOfWeek(today))
+    );
+    return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, day) => {
+        const date = addDays(start, week * 7 + day);
+        return {
+          date,
+          future: date > today,
+          archived: archived.has(date),
+          minutes: minutesByDate.get(date),
+        };
+      })
+    );
+  }, [dates, visits, timeZone]);
+
+  const trendLabel = (slope: number) => {
+    if (Math.abs(slope) < 0.5) return t("profile.steady");
+    const minutes = formatNumber(Math.abs(slope), {
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    });
+    return t(slope > 0 ? "profile.trendUp" : "profile.trendDown", { minutes });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-6"
+      onClick={onClose}
+    >
+      <Card
+        className="w-full max-w-4xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>{studentName}</CardTitle>
+              <CardDescription>
+                {t("profile.description", { count: dates.length })}
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={onClose}>
+              {t("common.close")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!stats && !error && (
+            <div className="flex h-[200px] items-center justify-center">
+              <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+            </div>
+          )}
+          {stats && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-4">
+                <div className="rounded-md border border-slate-200 p-3">
+                  <p className="text-xs text-slate-500">
+                    {t("profile.thisMonth")}
+                  </p>
+                  <p className="text-xl font-semibold">
+                    {t("profile.visits", { count: stats.thisMonth })}
+                  </p>
+                </div>
+                <div className="rounded-md border border-slate-200 p-3">
+                  <p className="text-xs text-slate-500">
+                    {t("profile.attendanceRate")}
+                  </p>
+                  <p className="text-xl font-semibold">
+                    {Math.round(stats.attendanceRate * 100)}%
+                  </p>
+                </div>
+                <div className="rounded-md border border-slate-200 p-3">
+                  <p className="text-xs text-slate-500">
+                    {t("profile.averageTime")}
+                  </p>
+                  <p className="text-xl font-semibold">
+                    {formatDuration(stats.averageMinutes)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {trendLabel(stats.slope)}
+                  </p>
+                </div>
+                <div className="rounded-md border border-slate-200 p-3">
+                  <p className="text-xs text-slate-500">
+                    {t("profile.parentNotified")}
+                  </p>
+                  <p className="text-xl font-semibold">
+                    {Math.round(stats.notifiedRate * 100)}%
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="mb-2 text-sm font-medium text-slate-700">
+                  {t("profile.calendar")}
+                </h4>
+                <div className="flex gap-1">
+                  {heatmap.map((week) => (
+                    <div key={week[0].date} className="flex flex-col gap-1">
+                      {week.map((cell) => (
+                        <div
+                          key={cell.date}
+                          title={`${cell.date}: ${
+                            cell.minutes !== undefined
+                              ? cell.minutes === null
+                                ? t("profile.attended")
+                                : formatDuration(cell.minutes)
+                              : t(
+                                  cell.archived
+                                    ? "profile.absent"
+                                    : "profile.noSession"
+                                )
+                          }`}
+                          className={cn(
+                            "h-3 w-3 rounded-sm",
+                            cell.future
+                              ? "bg-transparent"
+                              : heatmapColor(cell.minutes, cell.archived)
+                          )}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="mb-2 text-sm font-medium text-slate-700">
+                  {t("profile.timePerVisit")}
+                </h4>
+                {stats.trendData.length === 0 ? (
+                  <p className="text-sm text-slate-500">
+                    {t("profile.noVisits")}
+                  </p>
+                ) : (
+                  <ChartContainer
+                    config={{
+                      value: { label: t("column.minutes"), color: "#10b981" },
+                    }}
+                    className="h-[220px]"
+                  >
+                    <LineChart
+                      data={stats.trendData}
+                      margin={{ left: 12, right: 12 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" />
+                      <YAxis allowDecimals={false} />
+                      <ChartTooltip />
+                      <Line
+                        dataKey="value"
+                        stroke="var(--color-value)"
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                )}
+              </div>
+
+              <div>
+                <h4 className="mb-2 text-sm font-medium text-slate-700">
+                  {t("profile.notificationFailures")}
+                </h4>
+                {stats.failedReasons.length === 0 ? (
+                  <p className="text-sm text-slate-500">
+                    {t("profile.noFailures")}
+                  </p>
+                ) : (
+                  <ul className="space-y-1 text-sm text-slate-600">
+                    {stats.failedReasons.map(([reason, count]) => (
+                      <li key={reason} className="flex justify-between">
+                        <span>{reason}</span>
+                        <span className="font-medium text-slate-900">
+                          {count}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
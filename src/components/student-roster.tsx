@@ -0,0 +1,152 @@
+import { useState } from "react";
+
+import type { ApiClient } from "@/lib/api";
+import { weekdayLabel } from "@/lib/date-range";
+import type { Student, StudentInput } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { StudentEditor } from "@/components/student-editor";
+
+type StudentRosterProps = {
+  api: ApiClient;
+  students: Student[];
+  loadError: string | null;
+  onStudentsChange: (update: (prev: Student[]) => Student[]) => void;
+};
+
+export function StudentRoster({
+  api,
+  students,
+  loadError,
+  onStudentsChange,
+}: StudentRosterProps) {
+  const { locale, t } = useI18n();
+  const [editing, setEditing] = useState<{ student: Student | null } | null>(
+    null
+  );
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = [...students].sort((a, b) => a.name.localeCompare(b.name));
+
+  const saveStudent = async (student: Student | null, input: StudentInput) => {
+    if (student) {
+      const updated = await api.updateStudent(student, input);
+      onStudentsChange((prev) =>
+        prev.map((row) => (row.id === updated.id ? updated : row))
+      );
+    } else {
+      const created = await api.createStudent(input);
+      onStudentsChange((prev) => [...prev, created]);
+    }
+  };
+
+  const deleteStudent = async (student: Student) => {
+    if (!window.confirm(t("students.confirmRemove", { name: student.name }))) {
+      return;
+    }
+    setDeletingId(student.id);
+    setError(null);
+    try {
+      await api.deleteStudent(student);
+      onStudentsChange((prev) => prev.filter((row) => row.id !== student.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>{t("tabs.students")}</CardTitle>
+          <Button size="sm" onClick={() => setEditing({ student: null })}>
+            {t("students.add")}
+          </Button>
+        </div>
+        <CardDescription>{t("students.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {(error ?? loadError) && (
+          <p className="mb-3 text-sm text-red-600">{error ?? loadError}</p>
+        )}
+        <div className="overflow-x-auto rounded-md border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100 text-left text-slate-600">
+              <tr>
+                <th className="px-3 py-2">{t("column.studentId")}</th>
+                <th className="px-3 py-2">{t("students.name")}</th>
+                <th className="px-3 py-2">{t("students.scheduledDays")}</th>
+                <th className="px-3 py-2 text-right">
+                  {t("column.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((student) => (
+                <tr key={student.id} className="border-t">
+                  <td className="px-3 py-2 text-slate-500">{student.id}</td>
+                  <td className="px-3 py-2 font-medium text-slate-800">
+                    {student.name}
+                  </td>
+                  <td className="px-3 py-2 text-slate-600">
+                    {student.scheduled_days.length
+                      ? student.scheduled_days
+                          .map((day) => weekdayLabel(day, locale))
+                          .join(", ")
+                      : "-"}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditing({ student })}
+                      >
+                        {t("action.edit")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={deletingId === student.id}
+                        onClick={() => deleteStudent(student)}
+                      >
+                        {t("common.delete")}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {students.length === 0 && (
+                <tr>
+                  <td
+                    className="px-3 py-6 text-center text-slate-500"
+                    colSpan={4}
+                  >
+                    {t("students.empty")}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+      {editing && (
+        <StudentEditor
+          student={editing.student}
+          onSave={(input) => saveStudent(editing.student, input)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,358 @@
+import { useMemo, useState, type FormEvent } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { toCentreDate } from "@/lib/attendance";
+import { dayOfWeek, weekdayLabel } from "@/lib/date-range";
+import {
+  boxStats,
+  bucketCounts,
+  cumulativeDistribution,
+  parseBounds,
+  percentile,
+  PERCENTILES,
+  type BoxStats,
+} from "@/lib/distribution";
+import { recordDuration } from "@/lib/duration";
+import type { MessageKey } from "@/lib/i18n";
+import type { AttendanceRecord } from "@/lib/types";
+import { useI18n } from "@/hooks/use-i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart";
+
+type TimeSpentView = "buckets" | "box" | "cdf" | "percentiles";
+
+const viewLabels: Record<TimeSpentView, MessageKey> = {
+  buckets: "timeSpent.buckets",
+  box: "timeSpent.boxPlot",
+  cdf: "timeSpent.cumulative",
+  percentiles: "timeSpent.percentiles",
+};
+
+type BoxDatum = BoxStats & { name: string; range: [number, number] };
+
+type BoxShapeProps = {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: BoxDatum;
+};
+
+/** Draws whiskers, box and median inside the min-max range bar. */
+function BoxShape({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  payload,
+}: BoxShapeProps) {
+  if (!payload) return null;
+  const top = Math.min(y, y + height);
+  const span = payload.max - payload.min;
+  const toY = (value: number) =>
+    span ? top + (Math.abs(height) * (payload.max - value)) / span : top;
+  const center = x + width / 2;
+  const boxTop = toY(payload.q3);
+  const whiskers = [toY(payload.max), toY(payload.min)];
+  return (
+    <g stroke="var(--color-range)" fill="none" strokeWidth={1.5}>
+      <line x1={center} x2={center} y1={whiskers[0]} y2={whiskers[1]} />
+      {whiskers.map((whiskerY, i) => (
+        <line
+          key={i}
+          x1={x + width * 0.3}
+          x2={x + width * 0.7}
+          y1={whiskerY}
+          y2={whiskerY}
+        />
+      ))}
+      <rect
+        x={x}
+        y={boxTop}
+        width={width}
+        height={Math.max(toY(payload.q1) - boxTop, 1)}
+        fill="white"
+      />
+      <line
+        x1={x}
+        x2={x + width}
+        y1={toY(payload.median)}
+        y2={toY(payload.median)}
+        strokeWidth={2.5}
+      />
+    </g>
+  );
+}
+
+function recordWeekday(row: AttendanceRecord, timeZone: string) {
+  const date = row.date ?? toCentreDate(row.checkin_time, timeZone);
+  return date ? dayOfWeek(date) : null;
+}
+
+type TimeSpentChartProps = {
+  records: AttendanceRecord[];
+  bounds: number[];
+  onBoundsChange: (bounds: number[]) => void;
+  loading?: boolean;
+};
+
+export function TimeSpentChart({
+  records,
+  bounds,
+  onBoundsChange,
+  loading = false,
+}: TimeSpentChartProps) {
+  const { locale, timeZone, t, formatDuration } = useI18n();
+  const [view, setView] = useState<TimeSpentView>("buckets");
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const { minutes, unreadable } = useMemo(() => {
+    const values: { row: AttendanceRecord; minutes: number }[] = [];
+    let invalid = 0;
+    records.forEach((row) => {
+      const duration = recordDuration(row);
+      if (duration.ok) values.push({ row, minutes: duration.minutes });
+      else if (duration.reason === "invalid") invalid += 1;
+    });
+    return { minutes: values, unreadable: invalid };
+  }, [records]);
+
+  const bucketData = useMemo(
+    () =>
+      bucketCounts(
+        minutes.map((item) => item.minutes),
+        bounds
+      ),
+    [minutes, bounds]
+  );
+
+  const boxData = useMemo(() => {
+    const byDay = new Map<number, number[]>();
+    minutes.forEach((item) => {
+      const day = recordWeekday(item.row, timeZone);
+      if (day === null) return;
+      byDay.set(day, [...(byDay.get(day) ?? []), item.minutes]);
+    });
+    return [...byDay.entries()]
+      .sort(([a], [b]) => ((a + 6) % 7) - ((b + 6) % 7))
+      .flatMap(([day, values]): BoxDatum[] => {
+        const stats = boxStats(values);
+        return stats
+          ? [
+              {
+                ...stats,
+                name: weekdayLabel(day, locale),
+                range: [stats.min, stats.max],
+              },
+            ]
+          : [];
+      });
+  }, [minutes, timeZone, locale]);
+
+  const cdfData = useMemo(
+    () => cumulativeDistribution(minutes.map((item) => item.minutes)),
+    [minutes]
+  );
+
+  const percentileData = useMemo(() => {
+    const sorted = minutes.map((item) => item.minutes).sort((a, b) => a - b);
+    return PERCENTILES.map((p) => ({
+      name: p === 50 ? t("timeSpent.median") : `P${p}`,
+      value: sorted.length ? Math.round(percentile(sorted, p)) : 0,
+    }));
+  }, [minutes, t]);
+
+  const handleBoundsSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onBoundsChange(parseBounds(draft));
+    setEditing(false);
+  };
+
+  const renderChart = () => {
+    switch (view) {
+      case "buckets":
+        return (
+          <ChartContainer
+            config={{
+              value: { label: t("tabs.students"), color: "#10b981" },
+            }}
+            className="h-[300px]"
+          >
+            <BarChart data={bucketData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip />
+              <Bar dataKey="value" fill="var(--color-value)" />
+            </BarChart>
+          </ChartContainer>
+        );
+      case "box":
+        return (
+          <ChartContainer
+            config={{
+              range: { label: t("column.minutes"), color: "#0ea5e9" },
+            }}
+            className="h-[300px]"
+          >
+            <BarChart data={boxData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <ChartTooltip
+                formatValue={(item) => {
+                  const stats = item.payload as BoxDatum;
+                  return t("timeSpent.boxTooltip", {
+                    median: formatDuration(stats.median),
+                    q1: formatDuration(stats.q1),
+                    q3: formatDuration(stats.q3),
+                    min: formatDuration(stats.min),
+                    max: formatDuration(stats.max),
+                    count: stats.count,
+                  });
+                }}
+              />
+              <Bar dataKey="range" barSize={28} shape={BoxShape} />
+            </BarChart>
+          </ChartContainer>
+        );
+      case "cdf":
+        return (
+          <ChartContainer
+            config={{
+              share: { label: t("timeSpent.shareOfVisits"), color: "#6366f1" },
+            }}
+            className="h-[300px]"
+          >
+            <LineChart data={cdfData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="minutes" type="number" unit="m" />
+              <YAxis domain={[0, 100]} unit="%" />
+              <ChartTooltip />
+              <Line
+                type="stepAfter"
+                dataKey="share"
+                stroke="var(--color-share)"
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        );
+      case "percentiles":
+        return (
+          <ChartContainer
+            config={{
+              value: { label: t("column.minutes"), color: "#f59e0b" },
+            }}
+            className="h-[300px]"
+          >
+            <BarChart data={percentileData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis />
+              <ChartTooltip
+                formatValue={(item) => formatDuration(Number(item.value))}
+              />
+              <Bar dataKey="value" fill="var(--color-value)" />
+            </BarChart>
+          </ChartContainer>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("chart.timeSpentTitle")}</CardTitle>
+        <CardDescription>
+          {t("timeSpent.summary", {
+            view: t(viewLabels[view]),
+            count: minutes.length,
+          })}
+          {unreadable > 0 &&
+            ` ${t("timeSpent.unreadable", { count: unreadable })}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(viewLabels) as TimeSpentView[]).map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={view === key ? "default" : "outline"}
+              onClick={() => setView(key)}
+            >
+              {t(viewLabels[key])}
+            </Button>
+          ))}
+          {view === "buckets" && !editing && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setDraft(bounds.join(", "));
+                setEditing(true);
+              }}
+            >
+              {t("timeSpent.editBuckets")}
+            </Button>
+          )}
+        </div>
+        {view === "buckets" && editing && (
+          <form
+            className="flex flex-wrap items-center gap-2"
+            onSubmit={handleBoundsSubmit}
+          >
+            <label
+              htmlFor="bucket-bounds"
+              className="text-sm font-medium text-slate-700"
+            >
+              {t("timeSpent.upperBounds")}
+            </label>
+            <input
+              id="bucket-bounds"
+              className="w-48 rounded-md border border-slate-300 px-3 py-2 text-sm"
+              placeholder="15, 30, 45, 60"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <Button type="submit" size="sm">
+              {t("common.save")}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setEditing(false)}
+            >
+              {t("common.cancel")}
+            </Button>
+          </form>
+        )}
+        {loading ? (
+          <div className="flex h-[300px] items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-slate-300 border-t-slate-900" />
+          </div>
+        ) : (
+          renderChart()
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -40,10 +40,20 @@ export function ChartContainer({
   );
 }
 
+type TooltipItem = {
+  dataKey?: unknown;
+  value?: unknown;
+  payload?: unknown;
+};
+
 export function ChartTooltip({
   className,
+  formatValue,
   ...props
-}: TooltipProps<number, string> & { className?: string }) {
+}: TooltipProps<number, string> & {
+  className?: string;
+  formatValue?: (item: TooltipItem) => React.ReactNode;
+}) {
   const config = React.useContext(ChartContext);
   return (
     <RechartsTooltip
@@ -70,7 +80,7 @@ export function ChartTooltip({
                     />
                     <span className="text-slate-600">{labelText}:</span>
                     <span className="font-medium text-slate-900">
-                      {item.value}
+                      {formatValue ? formatValue(item) : item.value}
                     </span>
                   </div>
                 );
@@ -0,0 +1,22 @@
+import * as React from "react";
+
+import { cn } from "@/lib/utils";
+
+const Toast = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement> & { tone?: "default" | "error" }
+>(({ className, tone = "default", ...props }, ref) => (
+  <div
+    ref={ref}
+    role="status"
+    className={cn(
+      "fixed bottom-6 right-6 z-50 flex items-center gap-3 rounded-lg px-4 py-3 text-sm shadow-lg",
+      tone === "error" ? "bg-red-600 text-white" : "bg-slate-900 text-white",
+      className
+    )}
+    {...props}
+  />
+));
+Toast.displayName = "Toast";
+
+export { Toast };
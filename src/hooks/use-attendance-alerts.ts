@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { computeNorms, detectAlerts, type StudentNorm } from "@/lib/alerts";
+import { isAbortError, type ApiClient } from "@/lib/api";
+import { presetRange, todayInCentre } from "@/lib/date-range";
+import type { AttendanceDate, AttendanceRecord } from "@/lib/types";
+import type { I18n } from "@/hooks/use-i18n";
+
+const CLOSING_TIME_KEY = "kumi.alerts.closingTime";
+const ACKNOWLEDGED_KEY = "kumi.alerts.acknowledged";
+const DEFAULT_CLOSING_TIME = "19:00";
+const TICK_MS = 60000;
+
+type AcknowledgedStore = { date: string; ids: string[] };
+
+function readAcknowledged(timeZone: string): string[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(ACKNOWLEDGED_KEY) ?? "null"
+    ) as AcknowledgedStore | null;
+    return stored?.date === todayInCentre(timeZone) ? stored.ids : [];
+  } catch {
+    return [];
+  }
+}
+
+function notificationsSupported() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Shows a system notification through the service worker where one is
+ * registered; Android Chrome rejects `new Notification()` outright. Failures
+ * are ignored, as the in-page alert list still shows the alert.
+ */
+async function showSystemNotification(
+  title: string,
+  options: NotificationOptions
+) {
+  try {
+    const registration =
+      "serviceWorker" in navigator
+        ? await navigator.serviceWorker.getRegistration()
+        : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      new Notification(title, options);
+    }
+  } catch {
+    // Unsupported here; nothing more to do.
+  }
+}
+
+/**
+ * Flags open check-ins after closing, sessions outside a student's usual
+ * length (based on the last 30 days) and duplicate check-ins. Takes `i18n`
+ * rather than reading the context, since App provides it.
+ */
+export function useAttendanceAlerts(
+  api: ApiClient | null,
+  dates: AttendanceDate[],
+  records: AttendanceRecord[],
+  { locale, timeZone, t }: I18n
+) {
+  const [now, setNow] = useState(() => Date.now());
+  const [norms, setNorms] = useState<Map<number, StudentNorm>>(
+    () => new Map()
+  );
+  const [closingTime, setClosingTimeState] = useState(
+    () => localStorage.getItem(CLOSING_TIME_KEY) ?? DEFAULT_CLOSING_TIME
+  );
+  // Tagged with the zone it was read for; another centre's "today" has its
+  // own list.
+  const [stored, setStored] = useState(() => ({
+    source: timeZone,
+    ids: readAcknowledged(timeZone),
+  }));
+  const acknowledged = useMemo(
+    () =>
+      stored.source === timeZone ? stored.ids : readAcknowledged(timeZone),
+    [stored, timeZone]
+  );
+  const [permission, setPermission] = useState(() =>
+    notificationsSupported() ? Notification.permission : "denied"
+  );
+  const notifiedIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!api) return;
+    const controller = new AbortController();
+    api
+      .getRecordsInRange(
+        presetRange("last-30-days", todayInCentre(timeZone)),
+        controller.signal
+      )
+      .then((history) => setNorms(computeNorms(history)))
+      .catch((err) => {
+        if (!isAbortError(err)) setNorms(new Map());
+      });
+    return () => controller.abort();
+    // `dates` changes when a day is archived, which adds to the norms.
+  }, [api, dates, timeZone]);
+
+  const alerts = useMemo(
+    () =>
+      detectAlerts(records, norms, {
+        closingTime,
+        timeZone,
+        locale,
+        now,
+      }).filter((alert) => !acknowledged.includes(alert.id)),
+    [records, norms, closingTime, timeZone, locale, now, acknowledged]
+  );
+
+  useEffect(() => {
+    if (permission !== "granted") return;
+    alerts.forEach((alert) => {
+      if (notifiedIds.current.has(alert.id)) return;
+      notifiedIds.current.add(alert.id);
+      showSystemNotification(
+        t("alerts.notificationTitle", { name: alert.studentName }),
+        { body: alert.message, tag: alert.id }
+      );
+    });
+  }, [alerts, permission, t]);
+
+  const acknowledge = useCallback(
+    (id: string) => {
+      setStored((prev) => {
+        const previous =
+          prev.source === timeZone ? prev.ids : readAcknowledged(timeZone);
+        const ids = [...previous, id];
+        localStorage.setItem(
+          ACKNOWLEDGED_KEY,
+          JSON.stringify({ date: todayInCentre(timeZone), ids })
+        );
+        return { source: timeZone, ids };
+      });
+    },
+    [timeZone]
+  );
+
+  const setClosingTime = useCallback((value: string) => {
+    localStorage.setItem(CLOSING_TIME_KEY, value);
+    setClosingTimeState(value);
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    if (!notificationsSupported()) return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return {
+    alerts,
+    acknowledge,
+    closingTime,
+    setClosingTime,
+    notificationPermission: permission,
+    requestPermission,
+  };
+}
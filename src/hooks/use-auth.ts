@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AuthChangeEvent, Session } from "@supabase/supabase-js";
+
+import { roleFromUser } from "@/lib/roles";
+import { supabase } from "@/lib/supabase";
+
+/**
+ * `mfa`: signed in with a password but a verified TOTP factor still needs a
+ * code. `recovery`: arrived from a password reset link.
+ */
+export type AuthStage = "signed_out" | "mfa" | "recovery" | "signed_in";
+
+async function stageFor(session: Session | null): Promise<AuthStage> {
+  if (!session) return "signed_out";
+  const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  return data?.nextLevel === "aal2" && data.currentLevel !== "aal2"
+    ? "mfa"
+    : "signed_in";
+}
+
+export function useAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [stage, setStage] = useState<AuthStage>("signed_out");
+  // Set when a sign-in completes in this tab, not when a session is restored.
+  const [signedInAt, setSignedInAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+    let latest = 0;
+    let current: AuthStage = "signed_out";
+
+    const apply = async (next: Session | null, event?: AuthChangeEvent) => {
+      const call = ++latest;
+      const nextStage =
+        event === "PASSWORD_RECOVERY" ? "recovery" : await stageFor(next);
+      if (disposed || call !== latest) return;
+      const resolved =
+        current === "recovery" && next && event !== "USER_UPDATED"
+          ? current
+          : nextStage;
+      if (
+        resolved === "signed_in" &&
+        current !== "signed_in" &&
+        (event === "SIGNED_IN" || event === "MFA_CHALLENGE_VERIFIED")
+      ) {
+        setSignedInAt(Date.now());
+      }
+      current = resolved;
+      setSession(next);
+      setStage(resolved);
+    };
+
+    supabase.auth.getSession().then(({ data }) => apply(data.session));
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, next) => {
+      // Supabase calls this while holding its auth lock, so the MFA lookup
+      // has to run after the callback returns.
+      setTimeout(() => apply(next, event), 0);
+    });
+    return () => {
+      disposed = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase.auth.refreshSession();
+    return error ? null : (data.session?.access_token ?? null);
+  }, []);
+
+  return {
+    stage,
+    token: stage === "signed_in" ? (session?.access_token ?? null) : null,
+    role: roleFromUser(session?.user),
+    accountId: session?.user.id ?? null,
+    signedInAt,
+    refresh,
+  };
+}
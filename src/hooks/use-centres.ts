@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import type { Centre } from "@/lib/types";
+
+const CENTRE_KEY = "kumi.centre";
+
+function pickCentre(centres: Centre[], id: string | null) {
+  return centres.find((centre) => centre.id === id) ?? centres[0] ?? null;
+}
+
+/**
+ * Loads the centres the account can see and remembers the selected one.
+ * `ready` turns true once the list has loaded (or failed), so callers can
+ * hold off on centre-scoped requests until then.
+ */
+export function useCentres(api: ApiClient | null) {
+  const [centres, setCentres] = useState<Centre[]>([]);
+  const [selectedId, setSelectedId] = useState(() =>
+    localStorage.getItem(CENTRE_KEY)
+  );
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!api) return;
+    const controller = new AbortController();
+    api
+      .getCentres(controller.signal)
+      .then((rows) => {
+        setCentres(rows);
+        setError(null);
+        setReady(true);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setError(err.message);
+        setReady(true);
+      });
+    return () => controller.abort();
+  }, [api]);
+
+  const selectCentre = useCallback((id: string) => {
+    localStorage.setItem(CENTRE_KEY, id);
+    setSelectedId(id);
+  }, []);
+
+  return {
+    centres,
+    centre: pickCentre(centres, selectedId),
+    selectCentre,
+    ready,
+    error,
+  };
+}
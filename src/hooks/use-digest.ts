@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { isAbortError, type ApiClient, type DigestState } from "@/lib/api";
+import { todayInCentre } from "@/lib/date-range";
+import { buildDigest, digestMessage } from "@/lib/digest";
+import type { Locale } from "@/lib/i18n";
+import { createTransport } from "@/lib/mail-transport";
+import type {
+  AttendanceRecord,
+  DigestSettings,
+  DigestTransport,
+} from "@/lib/types";
+
+type Loaded = {
+  centreId: string | null;
+  digest: DigestState | null;
+  error: string | null;
+};
+
+/**
+ * Loads the centre's digest settings. The server sends the scheduled digest
+ * itself; the dashboard only saves settings, previews and sends test copies.
+ */
+export function useDigest(
+  api: ApiClient | null,
+  centreId: string | null,
+  timeZone: string,
+  locale: Locale,
+  records: AttendanceRecord[],
+  bounds: number[]
+) {
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  // Settings belong to one centre; a switch hides them until the new ones load.
+  const current = loaded?.centreId === centreId ? loaded : null;
+
+  useEffect(() => {
+    if (!api) return;
+    const controller = new AbortController();
+    api
+      .getDigestSettings(controller.signal)
+      .then((digest) => setLoaded({ centreId, digest, error: null }))
+      .catch((err) => {
+        if (!isAbortError(err)) {
+          setLoaded({ centreId, digest: null, error: err.message });
+        }
+      });
+    return () => controller.abort();
+  }, [api, centreId]);
+
+  const buildMessage = useCallback(
+    (config: DigestSettings) =>
+      digestMessage(
+        config,
+        buildDigest(records, todayInCentre(timeZone), bounds),
+        locale
+      ),
+    [records, timeZone, bounds, locale]
+  );
+
+  const sendTest = useCallback(
+    async (config: DigestSettings, transport: DigestTransport) => {
+      if (!api) return;
+      await createTransport(transport, api).send(
+        todayInCentre(timeZone),
+        buildMessage(config)
+      );
+    },
+    [api, timeZone, buildMessage]
+  );
+
+  const save = useCallback(
+    async (next: DigestSettings) => {
+      if (!api) return;
+      const digest = await api.updateDigestSettings(next);
+      setLoaded({ centreId, digest, error: null });
+    },
+    [api, centreId]
+  );
+
+  return {
+    settings: current?.digest?.settings ?? null,
+    lastSent: current?.digest?.lastSent ?? null,
+    error: current?.error ?? null,
+    save,
+    sendTest,
+    buildMessage,
+  };
+}
@@ -0,0 +1,52 @@
+import { createContext, useContext } from "react";
+
+import { formatDateTime } from "@/lib/attendance";
+import { formatDuration } from "@/lib/duration";
+import {
+  DEFAULT_LOCALE,
+  formatNumber,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
+
+export type I18n = {
+  locale: Locale;
+  /** The selected centre's; dates and times are shown in it. */
+  timeZone: string;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (value: string | null) => string;
+  formatDuration: (minutes: number) => string;
+};
+
+/**
+ * Binds the formatters to `locale` and `timeZone` so components don't pass
+ * them around.
+ */
+export function createI18n(
+  locale: Locale,
+  setLocale: (locale: Locale) => void,
+  timeZone: string
+): I18n {
+  return {
+    locale,
+    timeZone,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: (value, options) => formatNumber(locale, value, options),
+    formatDateTime: (value) => formatDateTime(value, locale, timeZone),
+    formatDuration: (minutes) => formatDuration(minutes, locale),
+  };
+}
+
+export const I18nContext = createContext<I18n>(
+  createI18n(DEFAULT_LOCALE, () => undefined, DEFAULT_TIME_ZONE)
+);
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
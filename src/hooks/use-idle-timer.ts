@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"];
+const WARNING_MS = 60000;
+const TICK_MS = 1000;
+
+/**
+ * Calls `onIdle` after `timeoutMs` without user input. `secondsLeft` counts
+ * down through the last minute so the page can warn first. Pass `null` to
+ * turn the timer off.
+ */
+export function useIdleTimer(timeoutMs: number | null, onIdle: () => void) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivity = useRef(0);
+  const onIdleRef = useRef(onIdle);
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  const stayActive = useCallback(() => {
+    lastActivity.current = Date.now();
+    setSecondsLeft(null);
+  }, []);
+
+  useEffect(() => {
+    if (timeoutMs === null) return;
+    lastActivity.current = Date.now();
+    ACTIVITY_EVENTS.forEach((name) =>
+      window.addEventListener(name, stayActive, { passive: true })
+    );
+    const timer = setInterval(() => {
+      const remaining = timeoutMs - (Date.now() - lastActivity.current);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        setSecondsLeft(null);
+        onIdleRef.current();
+        return;
+      }
+      setSecondsLeft(
+        remaining <= WARNING_MS ? Math.ceil(remaining / 1000) : null
+      );
+    }, TICK_MS);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((name) =>
+        window.removeEventListener(name, stayActive)
+      );
+    };
+  }, [timeoutMs, stayActive]);
+
+  return { secondsLeft, stayActive };
+}
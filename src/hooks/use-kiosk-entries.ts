@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+
+import { AuthExpiredError, isAbortError, type ApiClient } from "@/lib/api";
+import { sortKioskEntries, type KioskEntry } from "@/lib/kiosk";
+
+type KioskState = {
+  source: ApiClient | null;
+  entries: KioskEntry[];
+  /** Time of the last successful load; also drives elapsed times. */
+  updatedAt: number;
+  error: string | null;
+};
+
+/**
+ * Polls who is checked in right now. `onRevoked` runs when the device token
+ * is rejected.
+ */
+export function useKioskEntries(
+  api: ApiClient | null,
+  onRevoked: () => void,
+  intervalMs = 30000
+) {
+  const [state, setState] = useState<KioskState>(() => ({
+    source: null,
+    entries: [],
+    updatedAt: Date.now(),
+    error: null,
+  }));
+
+  useEffect(() => {
+    if (!api) return;
+    let controller = new AbortController();
+    const load = () => {
+      controller.abort();
+      controller = new AbortController();
+      api
+        .getKioskPresent(controller.signal)
+        .then((present) =>
+          setState({
+            source: api,
+            entries: sortKioskEntries(present),
+            updatedAt: Date.now(),
+            error: null,
+          })
+        )
+        .catch((err) => {
+          if (isAbortError(err)) return;
+          if (err instanceof AuthExpiredError) {
+            onRevoked();
+            return;
+          }
+          setState((prev) => ({ ...prev, error: err.message }));
+        });
+    };
+    load();
+    const timer = window.setInterval(load, intervalMs);
+    return () => {
+      window.clearInterval(timer);
+      controller.abort();
+    };
+  }, [api, onRevoked, intervalMs]);
+
+  return {
+    entries: state.source === api ? state.entries : [],
+    ready: state.source === api,
+    updatedAt: state.updatedAt,
+    error: state.error,
+  };
+}
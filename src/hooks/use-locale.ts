@@ -0,0 +1,35 @@
+import { useCallback, useState } from "react";
+
+import { browserLocale, isLocale, type Locale } from "@/lib/i18n";
+
+const STORAGE_PREFIX = "kumi.locale.";
+/** Last language picked on this device, used before anyone signs in. */
+const DEVICE_KEY = "kumi.locale";
+
+function readLocale(accountId: string | null): Locale {
+  const stored =
+    (accountId && localStorage.getItem(STORAGE_PREFIX + accountId)) ||
+    localStorage.getItem(DEVICE_KEY);
+  return isLocale(stored) ? stored : browserLocale();
+}
+
+/** UI language, saved per signed-in account. */
+export function useLocale(accountId: string | null) {
+  const [state, setState] = useState(() => ({
+    accountId,
+    locale: readLocale(accountId),
+  }));
+  const locale =
+    state.accountId === accountId ? state.locale : readLocale(accountId);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      localStorage.setItem(DEVICE_KEY, next);
+      if (accountId) localStorage.setItem(STORAGE_PREFIX + accountId, next);
+      setState({ accountId, locale: next });
+    },
+    [accountId]
+  );
+
+  return [locale, setLocale] as const;
+}
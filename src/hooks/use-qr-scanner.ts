@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+
+const SCAN_INTERVAL_MS = 300;
+
+type DetectedBarcode = { rawValue: string };
+
+type BarcodeDetectorInstance = {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => BarcodeDetectorInstance;
+
+export type QrScannerStatus =
+  | "off"
+  | "unsupported"
+  | "starting"
+  | "scanning"
+  | "error";
+
+function barcodeDetector() {
+  return (window as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+}
+
+/**
+ * Streams the rear camera into `videoRef` and calls `onCode` with each QR
+ * code read through the browser's `BarcodeDetector`. Browsers without it
+ * report `unsupported`; a keyboard-wedge scanner still works there.
+ */
+export function useQrScanner(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  enabled: boolean,
+  onCode: (text: string) => void
+) {
+  const supported = Boolean(barcodeDetector());
+  const [state, setState] = useState<{
+    status: "scanning" | "error";
+    error: string | null;
+  } | null>(null);
+  const onCodeRef = useRef(onCode);
+
+  useEffect(() => {
+    onCodeRef.current = onCode;
+  }, [onCode]);
+
+  useEffect(() => {
+    const Detector = barcodeDetector();
+    if (!enabled || !Detector) return;
+    const detector = new Detector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (media) => {
+        stream = media;
+        const video = videoRef.current;
+        if (stopped || !video) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        video.srcObject = media;
+        await video.play();
+        setState({ status: "scanning", error: null });
+        timer = window.setInterval(() => {
+          detector
+            .detect(video)
+            .then((codes) =>
+              codes.forEach((code) => onCodeRef.current(code.rawValue))
+            )
+            .catch(() => undefined);
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch((err) => {
+        if (!stopped) {
+          setState({
+            status: "error",
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      });
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+      setState(null);
+    };
+  }, [videoRef, enabled]);
+
+  let status: QrScannerStatus = "off";
+  if (!supported) status = "unsupported";
+  else if (enabled) status = state?.status ?? "starting";
+  return { status, error: enabled ? (state?.error ?? null) : null };
+}
@@ -0,0 +1,195 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+} from "@supabase/supabase-js";
+
+import { parseAttendanceRecord } from "@/lib/api";
+import { supabase } from "@/lib/supabase";
+import type { AttendanceRecord } from "@/lib/types";
+
+export type RealtimeStatus = "connecting" | "live" | "polling";
+
+const RESUBSCRIBE_BASE_MS = 2000;
+const RESUBSCRIBE_MAX_MS = 30000;
+const POLL_INTERVAL_MS = 15000;
+const HIGHLIGHT_MS = 4000;
+
+type RecordChange =
+  | { type: "INSERT" | "UPDATE"; record: AttendanceRecord }
+  | { type: "DELETE"; id: number };
+
+/**
+ * Validates a Realtime payload the same way API responses are; rows that
+ * don't parse are dropped (`null`) rather than shown.
+ */
+function toRecordChange(
+  payload: RealtimePostgresChangesPayload<AttendanceRecord>
+): RecordChange | null {
+  try {
+    if (payload.eventType === "DELETE") {
+      const id: unknown = payload.old.id;
+      return typeof id === "number" ? { type: "DELETE", id } : null;
+    }
+    return {
+      type: payload.eventType,
+      record: parseAttendanceRecord(payload.new, "realtime.new"),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function applyRecordChange(
+  records: AttendanceRecord[],
+  change: RecordChange
+): AttendanceRecord[] {
+  switch (change.type) {
+    case "INSERT":
+      return [
+        change.record,
+        ...records.filter((r) => r.id !== change.record.id),
+      ];
+    case "UPDATE":
+      if (!records.some((r) => r.id === change.record.id)) {
+        return [change.record, ...records];
+      }
+      return records.map((r) =>
+        r.id === change.record.id ? change.record : r
+      );
+    case "DELETE":
+      return records.filter((r) => r.id !== change.id);
+  }
+}
+
+/**
+ * Keeps `records` in sync with `students_checkin` through Supabase Realtime.
+ * When the channel drops, the hook polls with `poll` until a resubscribe
+ * (with exponential backoff) succeeds, then polls once more to catch up.
+ * Only rows for `centreId` are streamed when one is given.
+ */
+export function useRealtimeRecords(
+  enabled: boolean,
+  centreId: string | null,
+  setRecords: Dispatch<SetStateAction<AttendanceRecord[]>>,
+  poll: () => Promise<unknown>
+) {
+  const [status, setStatus] = useState<RealtimeStatus>("connecting");
+  const [changedIds, setChangedIds] = useState<Set<number>>(() => new Set());
+  const pollRef = useRef(poll);
+
+  useEffect(() => {
+    pollRef.current = poll;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let disposed = false;
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let attempt = 0;
+    const highlightTimers = new Set<ReturnType<typeof setTimeout>>();
+
+    const runPoll = () => {
+      pollRef.current().catch(() => undefined);
+    };
+
+    const markChanged = (id: number) => {
+      setChangedIds((prev) => new Set(prev).add(id));
+      const timer = setTimeout(() => {
+        highlightTimers.delete(timer);
+        setChangedIds((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        });
+      }, HIGHLIGHT_MS);
+      highlightTimers.add(timer);
+    };
+
+    const startPolling = () => {
+      setStatus("polling");
+      if (pollTimer) return;
+      pollTimer = setInterval(runPoll, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    };
+
+    const scheduleResubscribe = () => {
+      if (channel) supabase.removeChannel(channel);
+      channel = null;
+      if (retryTimer) return;
+      const delay = Math.min(
+        RESUBSCRIBE_BASE_MS * 2 ** attempt,
+        RESUBSCRIBE_MAX_MS
+      );
+      attempt += 1;
+      retryTimer = setTimeout(() => {
+        retryTimer = undefined;
+        subscribe();
+      }, delay);
+    };
+
+    const subscribe = () => {
+      const current = supabase
+        .channel(
+          centreId
+            ? `students_checkin-changes:${centreId}`
+            : "students_checkin-changes"
+        )
+        .on<AttendanceRecord>(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "students_checkin",
+            ...(centreId ? { filter: `centre_id=eq.${centreId}` } : {}),
+          },
+          (payload) => {
+            const change = toRecordChange(payload);
+            if (!change) return;
+            setRecords((prev) => applyRecordChange(prev, change));
+            markChanged(
+              change.type === "DELETE" ? change.id : change.record.id
+            );
+          }
+        );
+      channel = current;
+      current.subscribe((state) => {
+        if (disposed || channel !== current) return;
+        if (state === "SUBSCRIBED") {
+          if (attempt > 0) runPoll();
+          attempt = 0;
+          stopPolling();
+          setStatus("live");
+          return;
+        }
+        startPolling();
+        scheduleResubscribe();
+      });
+    };
+
+    subscribe();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      stopPolling();
+      highlightTimers.forEach(clearTimeout);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [enabled, centreId, setRecords]);
+
+  return { status, changedIds };
+}
@@ -0,0 +1,144 @@
+import {
+  useCallback,
+  useEffect,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+
+import {
+  ConflictError,
+  OfflineQueuedError,
+  type ApiClient,
+} from "@/lib/api";
+import { minutesBetween, replaceRecord } from "@/lib/attendance";
+import type { AttendanceRecord, RecordChanges } from "@/lib/types";
+import type { I18n } from "@/hooks/use-i18n";
+
+const TOAST_MS = 8000;
+
+export type CorrectionToast = {
+  message: string;
+  tone: "default" | "error";
+  revert?: { record: AttendanceRecord; changes: RecordChanges; label: string };
+};
+
+function timesChanges(
+  checkinTime: string | null,
+  checkoutTime: string | null
+): RecordChanges {
+  return {
+    status: checkoutTime ? "checked_out" : "checked_in",
+    checkin_time: checkinTime,
+    checkout_time: checkoutTime,
+    time_spent: minutesBetween(checkinTime, checkoutTime),
+  };
+}
+
+/**
+ * Applies manual check-in/out and time corrections optimistically, rolling
+ * back on failure and offering an undo toast on success.
+ */
+export function useRecordCorrections(
+  api: ApiClient | null,
+  setRecords: Dispatch<SetStateAction<AttendanceRecord[]>>,
+  reload: () => Promise<unknown>,
+  t: I18n["t"]
+) {
+  const [toast, setToast] = useState<CorrectionToast | null>(null);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const applyChanges = useCallback(
+    async (
+      before: AttendanceRecord,
+      changes: RecordChanges,
+      label: string,
+      undoable = true
+    ) => {
+      if (!api) return;
+      setRecords((prev) => replaceRecord(prev, { ...before, ...changes }));
+      try {
+        const { record } = await api.updateRecord(before, changes);
+        setRecords((prev) => replaceRecord(prev, record));
+        setToast({
+          message: label,
+          tone: "default",
+          revert: undoable
+            ? {
+                record,
+                changes: {
+                  status: before.status,
+                  checkin_time: before.checkin_time,
+                  checkout_time: before.checkout_time,
+                  time_spent: before.time_spent,
+                },
+                label,
+              }
+            : undefined,
+        });
+      } catch (err) {
+        if (err instanceof OfflineQueuedError) {
+          setToast({ message: err.message, tone: "default" });
+          return;
+        }
+        setRecords((prev) => replaceRecord(prev, before));
+        if (err instanceof ConflictError) reload().catch(() => undefined);
+        setToast({
+          message: err instanceof Error ? err.message : String(err),
+          tone: "error",
+        });
+      }
+    },
+    [api, setRecords, reload]
+  );
+
+  const checkIn = useCallback(
+    (row: AttendanceRecord) =>
+      applyChanges(
+        row,
+        timesChanges(row.checkin_time ?? new Date().toISOString(), null),
+        t("corrections.checkedIn", { name: row.student_name })
+      ),
+    [applyChanges, t]
+  );
+
+  const checkOut = useCallback(
+    (row: AttendanceRecord) =>
+      applyChanges(
+        row,
+        timesChanges(row.checkin_time, new Date().toISOString()),
+        t("corrections.checkedOut", { name: row.student_name })
+      ),
+    [applyChanges, t]
+  );
+
+  const editTimes = useCallback(
+    (
+      row: AttendanceRecord,
+      checkinTime: string | null,
+      checkoutTime: string | null
+    ) =>
+      applyChanges(
+        row,
+        timesChanges(checkinTime, checkoutTime),
+        t("corrections.updatedTimes", { name: row.student_name })
+      ),
+    [applyChanges, t]
+  );
+
+  const undo = useCallback(() => {
+    if (!toast?.revert) return;
+    const { record, changes, label } = toast.revert;
+    setToast(null);
+    applyChanges(record, changes, t("corrections.undid", { label }), false);
+  }, [toast, applyChanges, t]);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  return { checkIn, checkOut, editTimes, toast, undo, dismissToast };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { isAbortError, type ApiClient } from "@/lib/api";
+import type { Student } from "@/lib/types";
+
+const NO_STUDENTS: Student[] = [];
+
+/**
+ * Loads the student roster once per API client. Rows loaded by an earlier
+ * client (another account or centre) are never returned.
+ */
+export function useRoster(api: ApiClient | null) {
+  const [roster, setRoster] = useState<{
+    source: ApiClient | null;
+    students: Student[];
+  }>({ source: null, students: [] });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!api) return;
+    const controller = new AbortController();
+    api
+      .getStudents(controller.signal)
+      .then((rows) => {
+        setRoster({ source: api, students: rows });
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [api]);
+
+  const setStudents = useCallback(
+    (update: (prev: Student[]) => Student[]) =>
+      setRoster((prev) => ({ ...prev, students: update(prev.students) })),
+    []
+  );
+
+  return {
+    students: api && roster.source === api ? roster.students : NO_STUDENTS,
+    setStudents,
+    error,
+  };
+}
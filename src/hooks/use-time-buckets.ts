@@ -0,0 +1,43 @@
+import { useCallback, useState } from "react";
+
+import { DEFAULT_BUCKET_BOUNDS, normalizeBounds } from "@/lib/distribution";
+
+const STORAGE_PREFIX = "kumi.timeBuckets.";
+
+function readBounds(accountId: string | null) {
+  if (!accountId) return DEFAULT_BUCKET_BOUNDS;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_PREFIX + accountId) ?? "null"
+    ) as unknown;
+    if (!Array.isArray(stored)) return DEFAULT_BUCKET_BOUNDS;
+    const bounds = normalizeBounds(stored.map(Number));
+    return bounds.length ? bounds : DEFAULT_BUCKET_BOUNDS;
+  } catch {
+    return DEFAULT_BUCKET_BOUNDS;
+  }
+}
+
+/** Time-spent bucket upper bounds, saved per signed-in account. */
+export function useTimeBuckets(accountId: string | null) {
+  const [state, setState] = useState(() => ({
+    accountId,
+    bounds: readBounds(accountId),
+  }));
+  const bounds =
+    state.accountId === accountId ? state.bounds : readBounds(accountId);
+
+  const setBounds = useCallback(
+    (next: number[]) => {
+      const normalized = normalizeBounds(next);
+      const value = normalized.length ? normalized : DEFAULT_BUCKET_BOUNDS;
+      if (accountId) {
+        localStorage.setItem(STORAGE_PREFIX + accountId, JSON.stringify(value));
+      }
+      setState({ accountId, bounds: value });
+    },
+    [accountId]
+  );
+
+  return [bounds, setBounds] as const;
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { EMPTY_FILTER, type RecordFilter } from "@/lib/record-filter";
+
+export type DashboardView = RecordFilter & {
+  tab: string;
+  from: string | null;
+  to: string | null;
+};
+
+type UpdateOptions = {
+  /** Replace the current history entry instead of pushing a new one. */
+  replace?: boolean;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const STATUS_VALUES = ["all", "checked_in", "checked_out"];
+const NOTIFIED_VALUES = ["all", "yes", "no"];
+
+function readDate(params: URLSearchParams, key: string) {
+  const value = params.get(key);
+  return value && DATE_PATTERN.test(value) ? value : null;
+}
+
+function readTime(params: URLSearchParams, key: string) {
+  const value = params.get(key);
+  return value && TIME_PATTERN.test(value) ? value : null;
+}
+
+function readMinutes(params: URLSearchParams, key: string) {
+  const value = params.get(key);
+  if (!value) return null;
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+}
+
+function readChoice(params: URLSearchParams, key: string, values: string[]) {
+  const value = params.get(key);
+  return value && values.includes(value) ? value : values[0];
+}
+
+export function readView(search = window.location.search): DashboardView {
+  const params = new URLSearchParams(search);
+  const date = readDate(params, "date");
+  const from = date ?? readDate(params, "from");
+  const to = date ?? readDate(params, "to");
+  return {
+    tab: params.get("tab") || "current",
+    from: from && to ? from : null,
+    to: from && to ? to : null,
+    search: params.get("q") ?? "",
+    status: readChoice(params, "status", STATUS_VALUES),
+    notified: readChoice(params, "notified", NOTIFIED_VALUES),
+    failedReason: params.get("reason") || EMPTY_FILTER.failedReason,
+    minMinutes: readMinutes(params, "min"),
+    maxMinutes: readMinutes(params, "max"),
+    checkinFrom: readTime(params, "in_from"),
+    checkinTo: readTime(params, "in_to"),
+  };
+}
+
+export function viewToSearch(view: DashboardView) {
+  const params = new URLSearchParams();
+  if (view.tab !== "current") params.set("tab", view.tab);
+  if (view.from && view.to) {
+    if (view.from === view.to) {
+      params.set("date", view.from);
+    } else {
+      params.set("from", view.from);
+      params.set("to", view.to);
+    }
+  }
+  if (view.search) params.set("q", view.search);
+  if (view.status !== "all") params.set("status", view.status);
+  if (view.notified !== "all") params.set("notified", view.notified);
+  if (view.failedReason !== "all") params.set("reason", view.failedReason);
+  if (view.minMinutes !== null) params.set("min", String(view.minMinutes));
+  if (view.maxMinutes !== null) params.set("max", String(view.maxMinutes));
+  if (view.checkinFrom) params.set("in_from", view.checkinFrom);
+  if (view.checkinTo) params.set("in_to", view.checkinTo);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Mirrors the dashboard's tab, date range and filters in the query string so
+ * views can be shared and navigated with back/forward.
+ */
+export function useUrlState() {
+  const [view, setView] = useState(() => readView());
+
+  useEffect(() => {
+    const onPopState = () => setView(readView());
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const updateView = useCallback(
+    (patch: Partial<DashboardView>, options: UpdateOptions = {}) => {
+      const next = { ...readView(), ...patch };
+      const search = viewToSearch(next);
+      if (search !== window.location.search) {
+        const url = `${window.location.pathname}${search}${window.location.hash}`;
+        if (options.replace) {
+          window.history.replaceState(null, "", url);
+        } else {
+          window.history.pushState(null, "", url);
+        }
+      }
+      setView(next);
+    },
+    []
+  );
+
+  return [view, updateView] as const;
+}
@@ -0,0 +1,155 @@
+import { minutesBetween, toCentreTime } from "@/lib/attendance";
+import { formatDuration, recordMinutes } from "@/lib/duration";
+import { translate, type Locale } from "@/lib/i18n";
+import type { AttendanceRecord } from "@/lib/types";
+
+export type AlertKind =
+  | "open-after-closing"
+  | "long-session"
+  | "short-session"
+  | "duplicate";
+
+export type AttendanceAlert = {
+  id: string;
+  kind: AlertKind;
+  recordId: number;
+  studentName: string;
+  message: string;
+};
+
+export type StudentNorm = {
+  mean: number;
+  stdDev: number;
+  samples: number;
+};
+
+export type AlertOptions = {
+  /** `HH:MM` in centre time. */
+  closingTime: string;
+  timeZone: string;
+  /** Language of the alert messages. */
+  locale: Locale;
+  now: number;
+};
+
+const MIN_SAMPLES = 3;
+const STD_DEV_THRESHOLD = 2;
+/** Ignore deviations smaller than this even when the spread is tiny. */
+const MIN_DEVIATION_MINUTES = 15;
+
+export function computeNorms(records: AttendanceRecord[]) {
+  const minutesByStudent = new Map<number, number[]>();
+  records.forEach((row) => {
+    if (row.status !== "checked_out") return;
+    const minutes = recordMinutes(row);
+    if (minutes === null || minutes <= 0) return;
+    minutesByStudent.set(row.student_id, [
+      ...(minutesByStudent.get(row.student_id) ?? []),
+      minutes,
+    ]);
+  });
+
+  const norms = new Map<number, StudentNorm>();
+  minutesByStudent.forEach((values, studentId) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    norms.set(studentId, {
+      mean,
+      stdDev: Math.sqrt(variance),
+      samples: values.length,
+    });
+  });
+  return norms;
+}
+
+function deviation(minutes: number, norm: StudentNorm | undefined) {
+  if (!norm || norm.samples < MIN_SAMPLES) return 0;
+  const diff = minutes - norm.mean;
+  const threshold = Math.max(
+    norm.stdDev * STD_DEV_THRESHOLD,
+    MIN_DEVIATION_MINUTES
+  );
+  if (Math.abs(diff) < threshold) return 0;
+  return diff;
+}
+
+export function detectAlerts(
+  records: AttendanceRecord[],
+  norms: Map<number, StudentNorm>,
+  { closingTime, timeZone, locale, now }: AlertOptions
+): AttendanceAlert[] {
+  const alerts: AttendanceAlert[] = [];
+  const duration = (minutes: number) => formatDuration(minutes, locale);
+  const nowIso = new Date(now).toISOString();
+  const pastClosing = toCentreTime(nowIso, timeZone) >= closingTime;
+
+  records.forEach((row) => {
+    const norm = norms.get(row.student_id);
+    if (row.status === "checked_in") {
+      if (pastClosing) {
+        alerts.push({
+          id: `open-after-closing:${row.id}`,
+          kind: "open-after-closing",
+          recordId: row.id,
+          studentName: row.student_name,
+          message: translate(locale, "alerts.openAfterClosing", {
+            time: closingTime,
+          }),
+        });
+      }
+      const elapsed = minutesBetween(row.checkin_time, nowIso) ?? 0;
+      if (deviation(elapsed, norm) > 0) {
+        alerts.push({
+          id: `long-session:${row.id}`,
+          kind: "long-session",
+          recordId: row.id,
+          studentName: row.student_name,
+          message: translate(locale, "alerts.hereFor", {
+            duration: duration(elapsed),
+            usual: duration(norm?.mean ?? 0),
+          }),
+        });
+      }
+      return;
+    }
+
+    const minutes = recordMinutes(row);
+    if (minutes === null) return;
+    const diff = deviation(minutes, norm);
+    if (diff !== 0) {
+      const kind = diff > 0 ? "long-session" : "short-session";
+      alerts.push({
+        id: `${kind}:${row.id}`,
+        kind,
+        recordId: row.id,
+        studentName: row.student_name,
+        message: translate(locale, "alerts.stayed", {
+          duration: duration(minutes),
+          usual: duration(norm?.mean ?? 0),
+        }),
+      });
+    }
+  });
+
+  const byStudent = new Map<number, AttendanceRecord[]>();
+  records.forEach((row) => {
+    byStudent.set(row.student_id, [
+      ...(byStudent.get(row.student_id) ?? []),
+      row,
+    ]);
+  });
+  byStudent.forEach((rows) => {
+    if (rows.length < 2) return;
+    const latest = rows[rows.length - 1];
+    alerts.push({
+      id: `duplicate:${rows.map((row) => row.id).join("-")}`,
+      kind: "duplicate",
+      recordId: latest.id,
+      studentName: latest.student_name,
+      message: translate(locale, "alerts.duplicate", { count: rows.length }),
+    });
+  });
+
+  return alerts;
+}
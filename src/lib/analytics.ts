@@ -0,0 +1,151 @@
+import {
+  CONTACTED_MANUALLY,
+  isNotified,
+  toCentreDate,
+  toCentreTime,
+} from "@/lib/attendance";
+import { addDays, dayOfWeek, startOfWeek } from "@/lib/date-range";
+import type { AttendanceRecord } from "@/lib/types";
+
+/** Weeks compared on each side when looking for declining attendance. */
+export const CHURN_WINDOW_WEEKS = 4;
+
+export type WeeklyCount = {
+  /** Monday of the week. */
+  week: string;
+  visits: number;
+  students: number;
+};
+
+export type HeatmapCell = {
+  /** Day of the week, 0 = Sunday; see `weekdayLabel`. */
+  day: number;
+  hour: number;
+  count: number;
+};
+
+export type ChurnRisk = {
+  studentId: number;
+  studentName: string;
+  previous: number;
+  recent: number;
+  lastVisit: string;
+};
+
+export type DeliveryTrend = {
+  week: string;
+  /** Percentages of the week's records. */
+  delivered: number;
+  contacted: number;
+  failed: number;
+};
+
+function recordDate(row: AttendanceRecord, timeZone: string) {
+  return row.date ?? toCentreDate(row.checkin_time, timeZone);
+}
+
+function groupByWeek(records: AttendanceRecord[], timeZone: string) {
+  const weeks = new Map<string, AttendanceRecord[]>();
+  records.forEach((row) => {
+    const date = recordDate(row, timeZone);
+    if (!date) return;
+    const week = startOfWeek(date);
+    weeks.set(week, [...(weeks.get(week) ?? []), row]);
+  });
+  return [...weeks.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function percent(part: number, total: number) {
+  return total ? Math.round((part / total) * 100) : 0;
+}
+
+export function weeklyCounts(
+  records: AttendanceRecord[],
+  timeZone: string
+): WeeklyCount[] {
+  return groupByWeek(records, timeZone).map(([week, rows]) => ({
+    week,
+    visits: rows.length,
+    students: new Set(rows.map((row) => row.student_id)).size,
+  }));
+}
+
+/** Check-ins by weekday and hour in centre time; empty cells are omitted. */
+export function checkinHeatmap(
+  records: AttendanceRecord[],
+  timeZone: string
+): HeatmapCell[] {
+  const cells = new Map<string, HeatmapCell>();
+  records.forEach((row) => {
+    const date = toCentreDate(row.checkin_time, timeZone);
+    const time = toCentreTime(row.checkin_time, timeZone);
+    if (!date || !time) return;
+    const day = dayOfWeek(date);
+    const hour = Number(time.slice(0, 2));
+    const key = `${day}:${hour}`;
+    const cell = cells.get(key) ?? { day, hour, count: 0 };
+    cell.count += 1;
+    cells.set(key, cell);
+  });
+  return [...cells.values()];
+}
+
+/**
+ * Students who came at most half as often in the last `weeks` weeks as in
+ * the `weeks` before that, most pronounced drop first. Students with fewer
+ * than two earlier visits are left out as too new to judge.
+ */
+export function churnRisks(
+  records: AttendanceRecord[],
+  today: string,
+  timeZone: string,
+  weeks = CHURN_WINDOW_WEEKS
+): ChurnRisk[] {
+  const recentFrom = addDays(today, -7 * weeks + 1);
+  const previousFrom = addDays(recentFrom, -7 * weeks);
+  const byStudent = new Map<number, ChurnRisk>();
+  records.forEach((row) => {
+    const date = recordDate(row, timeZone);
+    if (!date || date < previousFrom || date > today) return;
+    const entry = byStudent.get(row.student_id) ?? {
+      studentId: row.student_id,
+      studentName: row.student_name,
+      previous: 0,
+      recent: 0,
+      lastVisit: date,
+    };
+    if (date >= recentFrom) entry.recent += 1;
+    else entry.previous += 1;
+    if (date > entry.lastVisit) entry.lastVisit = date;
+    byStudent.set(row.student_id, entry);
+  });
+  return [...byStudent.values()]
+    .filter(
+      (entry) => entry.previous >= 2 && entry.recent * 2 <= entry.previous
+    )
+    .sort(
+      (a, b) =>
+        a.recent / a.previous - b.recent / b.previous ||
+        a.studentName.localeCompare(b.studentName)
+    );
+}
+
+export function deliveryTrend(
+  records: AttendanceRecord[],
+  timeZone: string
+): DeliveryTrend[] {
+  return groupByWeek(records, timeZone).map(([week, rows]) => {
+    const delivered = rows.filter((row) =>
+      isNotified(row.parent_notified)
+    ).length;
+    const contacted = rows.filter(
+      (row) => row.parent_notified === CONTACTED_MANUALLY
+    ).length;
+    return {
+      week,
+      delivered: percent(delivered, rows.length),
+      contacted: percent(contacted, rows.length),
+      failed: percent(rows.length - delivered - contacted, rows.length),
+    };
+  });
+}
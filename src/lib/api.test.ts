@@ -0,0 +1,369 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  AuthExpiredError,
+  ConflictError,
+  NetworkError,
+  OfflineQueuedError,
+  SchemaMismatchError,
+  ServerError,
+  createApiClient,
+  isAbortError,
+  type ApiClientOptions,
+  type CachedResponse,
+  type QueuedWrite,
+  type ResponseCache,
+  type WriteQueue,
+} from "@/lib/api";
+
+const BASE = "https://api.test";
+
+const DATES = {
+  dates: [{ id: 1, date: "2026-03-02", created_at: "2026-03-02T20:00:00Z" }],
+};
+
+type FetchStep = Response | Error | ((init: RequestInit) => Promise<Response>);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status });
+
+/** Answers each call with the next step; the last step repeats. */
+function stubFetch(...steps: FetchStep[]) {
+  let call = 0;
+  return vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+    const step = steps[Math.min(call, steps.length - 1)];
+    call += 1;
+    if (step instanceof Error) throw step;
+    if (typeof step === "function") return step(init ?? {});
+    return step.clone();
+  });
+}
+
+function client(
+  fetch: ReturnType<typeof stubFetch>,
+  options: Partial<ApiClientOptions> = {},
+) {
+  return createApiClient({
+    token: "token-1",
+    baseUrl: BASE,
+    fetch,
+    retryDelayMs: 100,
+    ...options,
+  });
+}
+
+function headerOf(fetch: ReturnType<typeof stubFetch>, call: number) {
+  const headers = fetch.mock.calls[call][1]?.headers as Record<string, string>;
+  return headers.Authorization;
+}
+
+function memoryCache() {
+  const entries = new Map<string, CachedResponse>();
+  const cache: ResponseCache = {
+    get: async (accountId, path) => entries.get(`${accountId} ${path}`),
+    put: async (accountId, path, body) => {
+      entries.set(`${accountId} ${path}`, { body, savedAt: 1000 });
+    },
+  };
+  return { cache, entries };
+}
+
+function memoryQueue(initial: QueuedWrite[] = []) {
+  const writes = [...initial];
+  let nextId = writes.length + 1;
+  const queue: WriteQueue = {
+    enqueue: async (write) => {
+      writes.push({ ...write, id: nextId++ });
+    },
+    list: async () => [...writes],
+    remove: async (id) => {
+      writes.splice(
+        writes.findIndex((write) => write.id === id),
+        1,
+      );
+    },
+  };
+  return { queue, writes };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("responses", () => {
+  it("parses a valid response", async () => {
+    const fetch = stubFetch(json(DATES));
+    await expect(client(fetch).getDates()).resolves.toEqual(DATES.dates);
+    expect(fetch).toHaveBeenCalledWith(
+      `${BASE}/api/db/records/dates`,
+      expect.objectContaining({ method: "GET" }),
+    );
+  });
+
+  it("raises SchemaMismatchError with the path of the bad field", async () => {
+    const fetch = stubFetch(json({ dates: [{ id: "1", date: "2026-03-02" }] }));
+    const error = await client(fetch)
+      .getDates()
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect((error as SchemaMismatchError).path).toBe("dates[0].id");
+  });
+
+  it("raises SchemaMismatchError for a body that isn't JSON", async () => {
+    const fetch = stubFetch(new Response("<html>", { status: 200 }));
+    await expect(client(fetch).getDates()).rejects.toBeInstanceOf(
+      SchemaMismatchError,
+    );
+  });
+
+  it("raises ConflictError on a 409", async () => {
+    const fetch = stubFetch(json({}, 409));
+    await expect(client(fetch).archiveDay("2026-03-02")).rejects.toBeInstanceOf(
+      ConflictError,
+    );
+  });
+
+  it("uses the server's error message", async () => {
+    const fetch = stubFetch(json({ error: "Date already closed" }, 422));
+    await expect(client(fetch).archiveDay("2026-03-02")).rejects.toEqual(
+      new ServerError(422, "Date already closed"),
+    );
+  });
+
+  it("scopes requests to the centre", async () => {
+    const fetch = stubFetch(json(DATES));
+    await client(fetch, { centreId: "north" }).getDates();
+    expect(fetch.mock.calls[0][0]).toBe(
+      `${BASE}/api/db/records/dates?centre=north`,
+    );
+  });
+});
+
+describe("token refresh", () => {
+  it("refreshes the token on a 401 and retries once with it", async () => {
+    const fetch = stubFetch(json({}, 401), json(DATES));
+    const refreshToken = vi.fn(async () => "token-2");
+    await expect(client(fetch, { refreshToken }).getDates()).resolves.toEqual(
+      DATES.dates,
+    );
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(headerOf(fetch, 0)).toBe("Bearer token-1");
+    expect(headerOf(fetch, 1)).toBe("Bearer token-2");
+  });
+
+  it("gives up after one retry", async () => {
+    const fetch = stubFetch(json({}, 401));
+    const refreshToken = vi.fn(async () => "token-2");
+    await expect(
+      client(fetch, { refreshToken }).getDates(),
+    ).rejects.toBeInstanceOf(AuthExpiredError);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails when the session can't be renewed", async () => {
+    const fetch = stubFetch(json({}, 401));
+    await expect(
+      client(fetch, { refreshToken: async () => null }).getDates(),
+    ).rejects.toBeInstanceOf(AuthExpiredError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one refresh between concurrent requests", async () => {
+    const fetch = stubFetch(json({}, 401), json({}, 401), json(DATES));
+    const refreshToken = vi.fn(async () => "token-2");
+    const api = client(fetch, { refreshToken });
+    await Promise.all([api.getDates(), api.getDates()]);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retries", () => {
+  it("retries a GET with exponential backoff", async () => {
+    vi.useFakeTimers();
+    const fetch = stubFetch(json({}, 503), json({}, 503), json(DATES));
+    const result = client(fetch).getDates();
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toEqual(DATES.dates);
+  });
+
+  it("retries network failures and stops after `retries`", async () => {
+    const fetch = stubFetch(new TypeError("Failed to fetch"));
+    await expect(
+      client(fetch, { retryDelayMs: 0 }).getDates(),
+    ).rejects.toBeInstanceOf(NetworkError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry client errors", async () => {
+    const fetch = stubFetch(json({}, 404));
+    await expect(client(fetch).getDates()).rejects.toEqual(
+      new ServerError(404),
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry a write", async () => {
+    const fetch = stubFetch(json({}, 503), json({}));
+    await expect(client(fetch).archiveDay("2026-03-02")).rejects.toEqual(
+      new ServerError(503),
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("abort", () => {
+  const abortable = (init: RequestInit) =>
+    new Promise<Response>((_, reject) => {
+      init.signal?.addEventListener("abort", () =>
+        reject(new DOMException("Aborted", "AbortError")),
+      );
+    });
+
+  it("rejects with the abort and doesn't retry", async () => {
+    const fetch = stubFetch(abortable);
+    const controller = new AbortController();
+    const result = client(fetch).getDates(controller.signal);
+    controller.abort();
+    const error = await result.catch((err: unknown) => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting between retries", async () => {
+    vi.useFakeTimers();
+    const fetch = stubFetch(json({}, 503));
+    const controller = new AbortController();
+    const result = client(fetch)
+      .getDates(controller.signal)
+      .catch((err: unknown) => err);
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    expect(isAbortError(await result)).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't serve the offline cache for an abort", async () => {
+    const { cache, entries } = memoryCache();
+    entries.set(" /api/db/records/dates", { body: DATES, savedAt: 1 });
+    const controller = new AbortController();
+    const fetch = stubFetch(abortable);
+    const result = client(fetch, { cache })
+      .getDates(controller.signal)
+      .catch((err: unknown) => err);
+    controller.abort();
+    expect(isAbortError(await result)).toBe(true);
+  });
+});
+
+describe("offline cache", () => {
+  it("serves the last response while offline and reports its age", async () => {
+    const { cache } = memoryCache();
+    const onStale = vi.fn();
+    const fetch = stubFetch(json(DATES), new TypeError("Failed to fetch"));
+    const api = client(fetch, { cache, onStale, retries: 0 });
+
+    await api.getDates();
+    expect(onStale).toHaveBeenLastCalledWith(null);
+    await expect(api.getDates()).resolves.toEqual(DATES.dates);
+    expect(onStale).toHaveBeenLastCalledWith(1000);
+  });
+
+  it("doesn't serve another account's responses", async () => {
+    const { cache } = memoryCache();
+    const fetch = stubFetch(json(DATES), new TypeError("Failed to fetch"));
+    await client(fetch, { cache, accountId: "amy" }).getDates();
+    await expect(
+      client(fetch, { cache, accountId: "ben", retries: 0 }).getDates()
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("fails offline when nothing was cached", async () => {
+    const { cache } = memoryCache();
+    const fetch = stubFetch(new TypeError("Failed to fetch"));
+    await expect(
+      client(fetch, { cache, retries: 0 }).getDates(),
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("write queue", () => {
+  it("queues a write made offline under the account", async () => {
+    const { queue, writes } = memoryQueue();
+    const fetch = stubFetch(new TypeError("Failed to fetch"));
+    const api = client(fetch, { queue, accountId: "amy" });
+
+    await expect(api.archiveDay("2026-03-02")).rejects.toBeInstanceOf(
+      OfflineQueuedError,
+    );
+    expect(writes).toEqual([
+      {
+        id: 1,
+        path: "/api/db/records/archive",
+        method: "POST",
+        body: { date: "2026-03-02" },
+        accountId: "amy",
+      },
+    ]);
+    await expect(api.pendingWrites()).resolves.toBe(1);
+  });
+
+  it("replays only the account's own writes, oldest first", async () => {
+    const { queue, writes } = memoryQueue([
+      { id: 1, path: "/a", method: "POST", body: 1, accountId: "amy" },
+      { id: 2, path: "/b", method: "POST", body: 2, accountId: "ben" },
+      { id: 3, path: "/c", method: "PATCH", body: 3, accountId: "amy" },
+    ]);
+    const fetch = stubFetch(json({}));
+    const api = client(fetch, { queue, accountId: "amy" });
+
+    await expect(api.flushQueue()).resolves.toEqual({
+      replayed: 2,
+      rejected: 0,
+    });
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      `${BASE}/a`,
+      `${BASE}/c`,
+    ]);
+    expect(writes.map((write) => write.id)).toEqual([2]);
+  });
+
+  it("drops and counts writes the server rejects", async () => {
+    const { queue, writes } = memoryQueue([
+      { id: 1, path: "/a", method: "POST", body: 1, accountId: "amy" },
+      { id: 2, path: "/b", method: "POST", body: 2, accountId: "amy" },
+    ]);
+    const fetch = stubFetch(json({ error: "Gone" }, 410), json({}));
+    const api = client(fetch, { queue, accountId: "amy" });
+
+    await expect(api.flushQueue()).resolves.toEqual({
+      replayed: 1,
+      rejected: 1,
+    });
+    expect(writes).toEqual([]);
+  });
+
+  it("stops at a network failure and keeps the rest", async () => {
+    const { queue, writes } = memoryQueue([
+      { id: 1, path: "/a", method: "POST", body: 1, accountId: "amy" },
+      { id: 2, path: "/b", method: "POST", body: 2, accountId: "amy" },
+    ]);
+    const fetch = stubFetch(json({}), new TypeError("Failed to fetch"));
+    const api = client(fetch, { queue, accountId: "amy" });
+
+    await expect(api.flushQueue()).resolves.toEqual({
+      replayed: 1,
+      rejected: 0,
+    });
+    expect(writes.map((write) => write.id)).toEqual([2]);
+  });
+});
@@ -0,0 +1,837 @@
+import {
+  auditQuery,
+  type AuditDetails,
+  type AuditFilter,
+} from "@/lib/audit";
+import type { DateRange } from "@/lib/date-range";
+import type { KioskEntry } from "@/lib/kiosk";
+import type { MailMessage } from "@/lib/mail-transport";
+import { isRole, type Role } from "@/lib/roles";
+import type {
+  Account,
+  AttendanceDate,
+  AttendanceRecord,
+  AuditEntry,
+  AuditEvent,
+  Centre,
+  DigestSettings,
+  KioskDevice,
+  NotificationAction,
+  RecordChanges,
+  Student,
+  StudentInput,
+} from "@/lib/types";
+
+export const API_BASE = import.meta.env.VITE_API_BASE as string;
+
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class AuthExpiredError extends ApiError {
+  constructor(message = "Your session has expired. Please sign in again.") {
+    super(message);
+    this.name = "AuthExpiredError";
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Could not reach the server. Check your connection.") {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+export class ServerError extends ApiError {
+  readonly status: number;
+
+  constructor(status: number, message = `Request failed (${status})`) {
+    super(message);
+    this.name = "ServerError";
+    this.status = status;
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(
+    message = "This record was changed by someone else. Reload and try again."
+  ) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class OfflineQueuedError extends ApiError {
+  constructor(
+    message = "You're offline. The change will sync when you reconnect."
+  ) {
+    super(message);
+    this.name = "OfflineQueuedError";
+  }
+}
+
+export class SchemaMismatchError extends ApiError {
+  readonly path: string;
+
+  constructor(path: string, expected: string) {
+    super(`Unexpected response from server: ${path} should be ${expected}`);
+    this.name = "SchemaMismatchError";
+    this.path = path;
+  }
+}
+
+export function isAbortError(err: unknown) {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+function isRetryable(err: unknown) {
+  if (err instanceof NetworkError) return true;
+  return err instanceof ServerError && err.status >= 500;
+}
+
+type Json = Record<string, unknown>;
+
+function expectObject(value: unknown, path: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaMismatchError(path, "an object");
+  }
+  return value as Json;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new SchemaMismatchError(path, "an array");
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new SchemaMismatchError(path, "a number");
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new SchemaMismatchError(path, "a string");
+  return value;
+}
+
+function expectNullableString(value: unknown, path: string): string | null {
+  if (value === null || value === undefined) return null;
+  return expectString(value, path);
+}
+
+export function parseAttendanceRecord(
+  value: unknown,
+  path = "record"
+): AttendanceRecord {
+  const row = expectObject(value, path);
+  const timeSpent = row.time_spent;
+  if (
+    timeSpent !== null &&
+    timeSpent !== undefined &&
+    typeof timeSpent !== "string" &&
+    typeof timeSpent !== "number"
+  ) {
+    throw new SchemaMismatchError(`${path}.time_spent`, "a string or number");
+  }
+  return {
+    id: expectNumber(row.id, `${path}.id`),
+    student_id: expectNumber(row.student_id, `${path}.student_id`),
+    student_name: expectString(row.student_name, `${path}.student_name`),
+    status: expectString(row.status, `${path}.status`),
+    parent_notified: expectNullableString(
+      row.parent_notified,
+      `${path}.parent_notified`
+    ),
+    failed_reason: expectNullableString(
+      row.failed_reason,
+      `${path}.failed_reason`
+    ),
+    checkin_time: expectNullableString(row.checkin_time, `${path}.checkin_time`),
+    checkout_time: expectNullableString(
+      row.checkout_time,
+      `${path}.checkout_time`
+    ),
+    time_spent: timeSpent ?? null,
+    date: expectNullableString(row.date, `${path}.date`),
+  };
+}
+
+export function parseAttendanceDate(
+  value: unknown,
+  path = "date"
+): AttendanceDate {
+  const row = expectObject(value, path);
+  return {
+    id: expectNumber(row.id, `${path}.id`),
+    date: expectString(row.date, `${path}.date`),
+    created_at: expectString(row.created_at, `${path}.created_at`),
+  };
+}
+
+export function parseAuditEntry(value: unknown, path = "audit"): AuditEntry {
+  const row = expectObject(value, path);
+  return {
+    id: expectNumber(row.id, `${path}.id`),
+    record_id:
+      row.record_id === null || row.record_id === undefined
+        ? null
+        : expectNumber(row.record_id, `${path}.record_id`),
+    action: expectString(row.action, `${path}.action`),
+    actor: expectString(row.actor, `${path}.actor`),
+    created_at: expectString(row.created_at, `${path}.created_at`),
+  };
+}
+
+export function parseAccount(value: unknown, path = "account"): Account {
+  const row = expectObject(value, path);
+  if (!isRole(row.role)) throw new SchemaMismatchError(`${path}.role`, "a role");
+  return {
+    id: expectString(row.id, `${path}.id`),
+    email: expectString(row.email, `${path}.email`),
+    role: row.role,
+  };
+}
+
+export function parseStudent(value: unknown, path = "student"): Student {
+  const row = expectObject(value, path);
+  return {
+    id: expectNumber(row.id, `${path}.id`),
+    name: expectString(row.name, `${path}.name`),
+    scheduled_days: expectArray(
+      row.scheduled_days ?? [],
+      `${path}.scheduled_days`
+    ).map((day, i) => expectNumber(day, `${path}.scheduled_days[${i}]`)),
+  };
+}
+
+function parseStudentList(json: Json): Student[] {
+  return expectArray(json.students ?? [], "students").map((row, i) =>
+    parseStudent(row, `students[${i}]`)
+  );
+}
+
+export function parseDigestSettings(
+  value: unknown,
+  path = "settings"
+): DigestSettings {
+  const row = expectObject(value, path);
+  if (typeof row.enabled !== "boolean") {
+    throw new SchemaMismatchError(`${path}.enabled`, "a boolean");
+  }
+  return {
+    enabled: row.enabled,
+    recipients: expectArray(row.recipients ?? [], `${path}.recipients`).map(
+      (email, i) => expectString(email, `${path}.recipients[${i}]`)
+    ),
+    send_time: expectString(row.send_time, `${path}.send_time`),
+  };
+}
+
+/** Settings plus the last day the server sent this centre's digest. */
+function parseDigestState(json: Json) {
+  return {
+    settings: parseDigestSettings(json.settings),
+    lastSent: expectNullableString(json.last_sent ?? null, "last_sent"),
+  };
+}
+
+export function parseCentre(value: unknown, path = "centre"): Centre {
+  const row = expectObject(value, path);
+  return {
+    id: expectString(row.id, `${path}.id`),
+    name: expectString(row.name, `${path}.name`),
+    time_zone: expectString(row.time_zone, `${path}.time_zone`),
+  };
+}
+
+function parseCentreList(json: Json): Centre[] {
+  return expectArray(json.centres ?? [], "centres").map((row, i) =>
+    parseCentre(row, `centres[${i}]`)
+  );
+}
+
+function parseAccountList(json: Json): Account[] {
+  return expectArray(json.accounts ?? [], "accounts").map((row, i) =>
+    parseAccount(row, `accounts[${i}]`)
+  );
+}
+
+function parseRecordUpdate(json: Json) {
+  return {
+    record: parseAttendanceRecord(json.record, "record"),
+    audit: parseAuditEntry(json.audit, "audit"),
+  };
+}
+
+export type ScanResult = {
+  record: AttendanceRecord;
+  action: "checked_in" | "checked_out";
+};
+
+function parseScan(json: Json): ScanResult {
+  const action: unknown = json.action;
+  if (action !== "checked_in" && action !== "checked_out") {
+    throw new SchemaMismatchError("action", "checked_in or checked_out");
+  }
+  return { record: parseAttendanceRecord(json.record, "record"), action };
+}
+
+function parseRecordList(json: Json): AttendanceRecord[] {
+  return expectArray(json.records ?? [], "records").map((row, i) =>
+    parseAttendanceRecord(row, `records[${i}]`)
+  );
+}
+
+function parseKioskDevice(value: unknown, path = "device"): KioskDevice {
+  const row = expectObject(value, path);
+  return {
+    id: expectString(row.id, `${path}.id`),
+    label: expectString(row.label, `${path}.label`),
+    created_at: expectString(row.created_at, `${path}.created_at`),
+    last_seen_at: expectNullableString(
+      row.last_seen_at,
+      `${path}.last_seen_at`
+    ),
+  };
+}
+
+function parseKioskDeviceList(json: Json): KioskDevice[] {
+  return expectArray(json.devices ?? [], "devices").map((row, i) =>
+    parseKioskDevice(row, `devices[${i}]`)
+  );
+}
+
+function parseKioskEntry(value: unknown, path: string): KioskEntry {
+  const row = expectObject(value, path);
+  return {
+    studentName: expectString(row.student_name, `${path}.student_name`),
+    checkinTime: expectNullableString(
+      row.checkin_time,
+      `${path}.checkin_time`
+    ),
+  };
+}
+
+function parseKioskEntryList(json: Json): KioskEntry[] {
+  return expectArray(json.present ?? [], "present").map((row, i) =>
+    parseKioskEntry(row, `present[${i}]`)
+  );
+}
+
+function parseAuditEvent(value: unknown, path: string): AuditEvent {
+  const row = expectObject(value, path);
+  return {
+    id: expectNumber(row.id, `${path}.id`),
+    action: expectString(row.action, `${path}.action`),
+    actor: expectString(row.actor, `${path}.actor`),
+    student_id:
+      row.student_id === null || row.student_id === undefined
+        ? null
+        : expectNumber(row.student_id, `${path}.student_id`),
+    student_name: expectNullableString(
+      row.student_name,
+      `${path}.student_name`
+    ),
+    before: row.before ?? null,
+    after: row.after ?? null,
+    created_at: expectString(row.created_at, `${path}.created_at`),
+  };
+}
+
+function parseAuditEventList(json: Json): AuditEvent[] {
+  return expectArray(json.events ?? [], "events").map((row, i) =>
+    parseAuditEvent(row, `events[${i}]`)
+  );
+}
+
+/** Server reply to a close, reopen or merge of an attendance date. */
+function parseDateChange(json: Json) {
+  return {
+    date:
+      json.date === null || json.date === undefined
+        ? null
+        : parseAttendanceDate(json.date, "date"),
+    moved: expectNumber(json.moved, "moved"),
+    audit: parseAuditEntry(json.audit, "audit"),
+  };
+}
+
+function parseDateList(json: Json): AttendanceDate[] {
+  return expectArray(json.dates ?? [], "dates").map((row, i) =>
+    parseAttendanceDate(row, `dates[${i}]`)
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** `occurred_at` keeps the original time for events replayed later. */
+function auditBody(details: AuditDetails) {
+  return {
+    action: details.action,
+    student_id: details.studentId ?? null,
+    before: details.before ?? null,
+    after: details.after ?? null,
+    occurred_at: new Date().toISOString(),
+  };
+}
+
+type RequestMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+export type CachedResponse = { body: Json; savedAt: number };
+
+/**
+ * Stores successful GET responses so they can be served while offline.
+ * Entries are kept per account, so one account never sees another's data.
+ */
+export type ResponseCache = {
+  get: (
+    accountId: string,
+    path: string
+  ) => Promise<CachedResponse | undefined>;
+  put: (accountId: string, path: string, body: Json) => Promise<void>;
+};
+
+export type QueuedWrite = {
+  id: number;
+  path: string;
+  method: RequestMethod;
+  body: unknown;
+  /** Only the account that made a write replays it. */
+  accountId?: string;
+};
+
+/** Holds writes made while offline until `flushQueue` replays them. */
+export type WriteQueue = {
+  enqueue: (write: Omit<QueuedWrite, "id">) => Promise<void>;
+  list: () => Promise<QueuedWrite[]>;
+  remove: (id: number) => Promise<void>;
+};
+
+export type ApiClientOptions = {
+  token: string;
+  /** Sent as `X-Dashboard-Role` so the server can apply the same rules. */
+  role?: Role;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  retries?: number;
+  retryDelayMs?: number;
+  cache?: ResponseCache;
+  queue?: WriteQueue;
+  /** Called with the cache time when serving stale data, `null` when fresh. */
+  onStale?: (savedAt: number | null) => void;
+  /** Added as a `centre` query parameter to every request. */
+  centreId?: string;
+  /**
+   * Tags queued writes and cached responses; see
+   * {@link QueuedWrite.accountId} and {@link ResponseCache}.
+   */
+  accountId?: string;
+  /**
+   * Called on a 401 to get a new access token. The request is retried once
+   * with it; `null` means the session can't be renewed.
+   */
+  refreshToken?: () => Promise<string | null>;
+};
+
+type RequestOptions = {
+  method?: RequestMethod;
+  body?: unknown;
+  signal?: AbortSignal;
+};
+
+export function createApiClient(clientOptions: ApiClientOptions) {
+  const {
+    token,
+    role,
+    baseUrl = API_BASE,
+    fetch: fetchImpl = (...args) => fetch(...args),
+    retries = 2,
+    retryDelayMs = 500,
+    cache,
+    queue,
+    onStale,
+    centreId,
+    accountId,
+    refreshToken,
+  } = clientOptions;
+
+  let accessToken = token;
+  let refreshing: Promise<string | null> | null = null;
+
+  // Concurrent 401s share one refresh.
+  const renewToken = async () => {
+    if (!refreshToken) return null;
+    refreshing ??= refreshToken().finally(() => {
+      refreshing = null;
+    });
+    const next = await refreshing.catch(() => null);
+    if (next) accessToken = next;
+    return next;
+  };
+
+  const scoped = (path: string) => {
+    if (!centreId) return path;
+    const separator = path.includes("?") ? "&" : "?";
+    return `${path}${separator}centre=${encodeURIComponent(centreId)}`;
+  };
+
+  const send = async (
+    path: string,
+    options: RequestOptions,
+    renewed = false
+  ): Promise<Json> => {
+    const sentToken = accessToken;
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl}${path}`, {
+        method: options.method ?? "GET",
+        headers: {
+          Authorization: `Bearer ${sentToken}`,
+          "Content-Type": "application/json",
+          ...(role ? { "X-Dashboard-Role": role } : {}),
+        },
+        body:
+          options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: options.signal,
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw new NetworkError();
+    }
+
+    if (res.status === 401) {
+      if (renewed) throw new AuthExpiredError();
+      // Another request may have refreshed the token while this one was out.
+      if (sentToken === accessToken && !(await renewToken())) {
+        throw new AuthExpiredError();
+      }
+      return send(path, options, true);
+    }
+    if (res.status === 409) throw new ConflictError();
+
+    let json: unknown;
+    try {
+      json = await res.json();
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      if (!res.ok) throw new ServerError(res.status);
+      throw new SchemaMismatchError("response", "JSON");
+    }
+
+    const body = expectObject(json, "response");
+    if (!res.ok || body.error) {
+      const message =
+        typeof body.error === "string" ? body.error : undefined;
+      throw new ServerError(res.ok ? 400 : res.status, message);
+    }
+    return body;
+  };
+
+  const sendWithRetry = async (path: string, options: RequestOptions) => {
+    const idempotent = (options.method ?? "GET") === "GET";
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        return await send(path, options);
+      } catch (err) {
+        if (!idempotent || attempt >= retries || !isRetryable(err)) throw err;
+        await sleep(retryDelayMs * 2 ** attempt, options.signal);
+      }
+    }
+  };
+
+  // Audit writes go through the offline queue like any other, but a failure
+  // to log never fails the action it describes.
+  const logEvent = (details: AuditDetails) =>
+    request("/api/audit", () => undefined, {
+      method: "POST",
+      body: auditBody(details),
+    }).catch(() => undefined);
+
+  const request = async <T>(
+    unscopedPath: string,
+    parse: (json: Json) => T,
+    options: RequestOptions = {}
+  ): Promise<T> => {
+    const path = scoped(unscopedPath);
+    const method = options.method ?? "GET";
+    let body: Json;
+    try {
+      body = await sendWithRetry(path, options);
+    } catch (err) {
+      if (!(err instanceof NetworkError)) throw err;
+      if (method === "GET") {
+        const cached = await cache?.get(accountId ?? "", path);
+        if (!cached) throw err;
+        onStale?.(cached.savedAt);
+        return parse(cached.body);
+      }
+      if (!queue) throw err;
+      await queue.enqueue({
+        path,
+        method,
+        body: options.body,
+        accountId,
+      });
+      throw new OfflineQueuedError();
+    }
+    const result = parse(body);
+    if (method === "GET") {
+      cache?.put(accountId ?? "", path, body).catch(() => undefined);
+      onStale?.(null);
+    }
+    return result;
+  };
+
+  const ownWrites = async () =>
+    ((await queue?.list()) ?? []).filter(
+      (write) => write.accountId === accountId
+    );
+
+  const getRecordsByDate = (date: string, signal?: AbortSignal) =>
+    request(
+      `/api/db/records/by-date?date=${encodeURIComponent(date)}`,
+      parseRecordList,
+      { signal }
+    );
+
+  return {
+    /** A client for another centre with the same credentials and storage. */
+    forCentre: (id: string) =>
+      createApiClient({
+        ...clientOptions,
+        token: accessToken,
+        centreId: id,
+        onStale: undefined,
+      }),
+
+    getCentres: (signal?: AbortSignal) =>
+      request("/api/centres", parseCentreList, { signal }),
+
+    getCurrentRecords: (signal?: AbortSignal) =>
+      request("/api/db/records/current", parseRecordList, { signal }),
+
+    getDates: (signal?: AbortSignal) =>
+      request("/api/db/records/dates", parseDateList, { signal }),
+
+    getRecordsByDate,
+
+    /**
+     * Every archived record dated within `range`, in one request rather than
+     * one per date. The server fills in each record's `date`.
+     */
+    getRecordsInRange: (range: DateRange, signal?: AbortSignal) =>
+      request(
+        `/api/db/records/range?${new URLSearchParams(range)}`,
+        parseRecordList,
+        { signal }
+      ),
+
+    /** One student's archived records across every date. */
+    getStudentRecords: (studentId: number, signal?: AbortSignal) =>
+      request(
+        `/api/db/records/by-student?student_id=${studentId}`,
+        parseRecordList,
+        { signal }
+      ),
+
+    /** Moves the current day's records into a new archived date. */
+    archiveDay: (date: string) =>
+      request("/api/db/records/archive", parseDateChange, {
+        method: "POST",
+        body: { date },
+      }),
+
+    /** Moves an archived date's records back to the current day. */
+    reopenDate: (date: AttendanceDate) =>
+      request(`/api/db/records/dates/${date.id}/reopen`, parseDateChange, {
+        method: "POST",
+      }),
+
+    /** Moves an archived date's records under `into`, removing the date. */
+    mergeDate: (date: AttendanceDate, into: string) =>
+      request(`/api/db/records/dates/${date.id}/merge`, parseDateChange, {
+        method: "POST",
+        body: { into },
+      }),
+
+    /**
+     * `expected` holds the values the edit was based on; the server answers
+     * 409 if the row no longer matches them.
+     */
+    updateRecord: (record: AttendanceRecord, changes: RecordChanges) => {
+      const expected = {
+        status: record.status,
+        checkin_time: record.checkin_time,
+        checkout_time: record.checkout_time,
+      };
+      return request(`/api/db/records/${record.id}`, parseRecordUpdate, {
+        method: "PATCH",
+        body: { changes, expected },
+      });
+    },
+
+    /**
+     * Checks a student in, or out if they already have an open check-in
+     * today; the server decides so two stations can't disagree.
+     */
+    scanStudent: (studentId: number) =>
+      request("/api/db/records/scan", parseScan, {
+        method: "POST",
+        body: { student_id: studentId },
+      }),
+
+    updateNotification: (
+      record: AttendanceRecord,
+      action: NotificationAction
+    ) =>
+      request(`/api/db/records/${record.id}/notification`, parseRecordUpdate, {
+        method: "POST",
+        body: { action },
+      }),
+
+    /**
+     * Replays writes queued while offline, oldest first. Stops at the first
+     * network failure; writes the server rejects are dropped and counted.
+     */
+    flushQueue: async () => {
+      let replayed = 0;
+      let rejected = 0;
+      for (const write of await ownWrites()) {
+        try {
+          await send(write.path, { method: write.method, body: write.body });
+          replayed += 1;
+        } catch (err) {
+          if (err instanceof NetworkError || err instanceof AuthExpiredError) {
+            break;
+          }
+          rejected += 1;
+        }
+        await queue?.remove(write.id);
+      }
+      return { replayed, rejected };
+    },
+
+    /** Writes this account made offline that haven't been replayed yet. */
+    pendingWrites: async () => (await ownWrites()).length,
+
+    getAccounts: (signal?: AbortSignal) =>
+      request("/api/accounts", parseAccountList, { signal }),
+
+    updateAccountRole: (account: Account, role: Role) =>
+      request(
+        `/api/accounts/${encodeURIComponent(account.id)}`,
+        (json) => parseAccount(json.account),
+        {
+          method: "PATCH",
+          body: { role },
+        }
+      ),
+
+    getStudents: (signal?: AbortSignal) =>
+      request("/api/students", parseStudentList, { signal }),
+
+    createStudent: (input: StudentInput) =>
+      request("/api/students", (json) => parseStudent(json.student), {
+        method: "POST",
+        body: input,
+      }),
+
+    updateStudent: (student: Student, input: StudentInput) =>
+      request(
+        `/api/students/${student.id}`,
+        (json) => parseStudent(json.student),
+        {
+          method: "PATCH",
+          body: input,
+        }
+      ),
+
+    deleteStudent: (student: Student) =>
+      request(`/api/students/${student.id}`, () => undefined, {
+        method: "DELETE",
+      }),
+
+    getDigestSettings: (signal?: AbortSignal) =>
+      request("/api/digest", parseDigestState, { signal }),
+
+    /** The server sends the scheduled digest from these settings. */
+    updateDigestSettings: (settings: DigestSettings) =>
+      request("/api/digest", parseDigestState, {
+        method: "PUT",
+        body: settings,
+      }),
+
+    /** Sends a test copy now; it doesn't count as that day's digest. */
+    sendTestDigest: (date: string, message: MailMessage) =>
+      request("/api/digest/send", () => undefined, {
+        method: "POST",
+        body: { date, test: true, ...message },
+      }),
+
+    /**
+     * Students checked in right now, for a lobby display. Device tokens can
+     * read nothing else, and the server sends only names and check-in times.
+     */
+    getKioskPresent: (signal?: AbortSignal) =>
+      request("/api/kiosk/present", parseKioskEntryList, { signal }),
+
+    getKioskDevices: (signal?: AbortSignal) =>
+      request("/api/kiosk/devices", parseKioskDeviceList, { signal }),
+
+    /** The returned token can only call `getKioskPresent`. */
+    createKioskDevice: (label: string) =>
+      request(
+        "/api/kiosk/devices",
+        (json) => ({
+          device: parseKioskDevice(json.device),
+          token: expectString(json.token, "token"),
+        }),
+        {
+          method: "POST",
+          body: { label },
+        }
+      ),
+
+    revokeKioskDevice: (device: KioskDevice) =>
+      request(
+        `/api/kiosk/devices/${encodeURIComponent(device.id)}`,
+        () => undefined,
+        {
+          method: "DELETE",
+        }
+      ),
+
+    /** Records an event the server can't see, e.g. an export. */
+    logEvent: (details: AuditDetails) => logEvent(details),
+
+    getAuditEvents: (filter: AuditFilter, signal?: AbortSignal) => {
+      const query = auditQuery(filter);
+      return request(
+        query ? `/api/audit?${query}` : "/api/audit",
+        parseAuditEventList,
+        { signal }
+      );
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+export type DateChange = ReturnType<typeof parseDateChange>;
+export type DigestState = ReturnType<typeof parseDigestState>;
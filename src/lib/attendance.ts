@@ -0,0 +1,141 @@
+import { recordMinutes } from "@/lib/duration";
+import { intlLocale, type Locale } from "@/lib/i18n";
+import { zonedTimeToIso } from "@/lib/timezone";
+import type { AttendanceRecord } from "@/lib/types";
+
+export const NOTIFIED_STATUSES = ["SENT", "DELIVERED", "READ", "PLAYED"];
+
+export function isNotified(value: string | null) {
+  return NOTIFIED_STATUSES.includes((value || "").toString().toUpperCase());
+}
+
+export const CONTACTED_MANUALLY = "CONTACTED_MANUALLY";
+
+export function replaceRecord(
+  records: AttendanceRecord[],
+  record: AttendanceRecord
+) {
+  return records.map((row) => (row.id === record.id ? record : row));
+}
+
+/** Replaces `record` in place, or puts it first when it's new. */
+export function upsertRecord(
+  records: AttendanceRecord[],
+  record: AttendanceRecord
+) {
+  return records.some((row) => row.id === record.id)
+    ? replaceRecord(records, record)
+    : [record, ...records];
+}
+
+export function minutesBetween(from: string | null, to: string | null) {
+  if (!from || !to) return null;
+  const diff = new Date(to).getTime() - new Date(from).getTime();
+  if (Number.isNaN(diff)) return null;
+  return Math.round(diff / 60000);
+}
+
+/** Formats an ISO timestamp as the `HH:MM` value of a time input. */
+export function toCentreTime(value: string | null, timeZone: string) {
+  if (!value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleTimeString("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+}
+
+export function toCentreDate(value: string | null, timeZone: string) {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleDateString("en-CA", { timeZone });
+}
+
+export function fromCentreTime(date: string, time: string, timeZone: string) {
+  return zonedTimeToIso(date, time, timeZone);
+}
+
+export function formatDateTime(
+  value: string | null,
+  locale: Locale,
+  timeZone: string
+) {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(intlLocale(locale), {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function openCheckIns(records: AttendanceRecord[]) {
+  return records.filter((row) => row.status === "checked_in");
+}
+
+/** Records whose parent was neither notified nor contacted by hand. */
+export function notificationFailures(records: AttendanceRecord[]) {
+  return records.filter(
+    (row) =>
+      !isNotified(row.parent_notified) &&
+      row.parent_notified !== CONTACTED_MANUALLY
+  );
+}
+
+export function statusCounts(records: AttendanceRecord[]) {
+  return records.reduce(
+    (acc, row) => {
+      if (row.status === "checked_in") acc.checkedIn += 1;
+      if (row.status === "checked_out") acc.checkedOut += 1;
+      if (isNotified(row.parent_notified)) acc.notified += 1;
+      return acc;
+    },
+    { checkedIn: 0, checkedOut: 0, notified: 0 }
+  );
+}
+
+export type DaySummary = {
+  date: string;
+  checkedIn: number;
+  checkedOut: number;
+  total: number;
+  averageMinutes: number;
+  notifiedRate: number;
+};
+
+export function summarizeByDay(records: AttendanceRecord[]): DaySummary[] {
+  const byDate = new Map<string, AttendanceRecord[]>();
+  records.forEach((row) => {
+    const key = row.date ?? "unknown";
+    byDate.set(key, [...(byDate.get(key) ?? []), row]);
+  });
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, rows]) => {
+      const minutes = rows
+        .map(recordMinutes)
+        .filter((value): value is number => value !== null);
+      const totalMinutes = minutes.reduce((sum, value) => sum + value, 0);
+      const notified = rows.filter((row) =>
+        isNotified(row.parent_notified)
+      ).length;
+      return {
+        date,
+        checkedIn: rows.filter((row) => row.status === "checked_in").length,
+        checkedOut: rows.filter((row) => row.status === "checked_out").length,
+        total: rows.length,
+        averageMinutes: minutes.length
+          ? Math.round((totalMinutes / minutes.length) * 10) / 10
+          : 0,
+        notifiedRate: Math.round((notified / rows.length) * 100),
+      };
+    });
+}
@@ -0,0 +1,179 @@
+import { formatDateTime } from "@/lib/attendance";
+import { downloadBlob, toCsvText } from "@/lib/export";
+import {
+  DEFAULT_LOCALE,
+  translate,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n";
+import type { AuditEvent } from "@/lib/types";
+
+export const AUDIT_ACTIONS = [
+  "record.update",
+  "record.scan",
+  "notification.update",
+  "date.archive",
+  "date.reopen",
+  "date.merge",
+  "account.role",
+  "student.create",
+  "student.update",
+  "student.delete",
+  "digest.settings",
+  "digest.send",
+  "kiosk.create",
+  "kiosk.revoke",
+  "export",
+  "sign_in",
+  "sign_out",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const auditActionLabels: Record<AuditAction, MessageKey> = {
+  "record.update": "auditAction.recordUpdate",
+  "record.scan": "auditAction.recordScan",
+  "notification.update": "auditAction.notificationUpdate",
+  "date.archive": "auditAction.dateArchive",
+  "date.reopen": "auditAction.dateReopen",
+  "date.merge": "auditAction.dateMerge",
+  "account.role": "auditAction.accountRole",
+  "student.create": "auditAction.studentCreate",
+  "student.update": "auditAction.studentUpdate",
+  "student.delete": "auditAction.studentDelete",
+  "digest.settings": "auditAction.digestSettings",
+  "digest.send": "auditAction.digestSend",
+  "kiosk.create": "auditAction.kioskCreate",
+  "kiosk.revoke": "auditAction.kioskRevoke",
+  export: "auditAction.export",
+  sign_in: "auditAction.signIn",
+  sign_out: "auditAction.signOut",
+};
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.includes(value as AuditAction);
+}
+
+export function actionLabel(action: string, locale: Locale = DEFAULT_LOCALE) {
+  return isAuditAction(action)
+    ? translate(locale, auditActionLabels[action])
+    : action;
+}
+
+/**
+ * Events only the client knows about. The server audits every API write
+ * itself, so those can't be skipped or forged by a client.
+ */
+export type ClientAuditAction = Extract<
+  AuditAction,
+  "export" | "sign_in" | "sign_out"
+>;
+
+/** What a client sends; the server adds the actor from the token. */
+export type AuditDetails = {
+  action: ClientAuditAction;
+  studentId?: number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditFilter = {
+  actor: string;
+  studentId: number | null;
+  from: string;
+  to: string;
+  action: AuditAction | "";
+};
+
+export const EMPTY_AUDIT_FILTER: AuditFilter = {
+  actor: "",
+  studentId: null,
+  from: "",
+  to: "",
+  action: "",
+};
+
+export function auditQuery(filter: AuditFilter) {
+  const params = new URLSearchParams();
+  if (filter.actor.trim()) params.set("actor", filter.actor.trim());
+  if (filter.studentId !== null) {
+    params.set("student", String(filter.studentId));
+  }
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  if (filter.action) params.set("action", filter.action);
+  return params.toString();
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Lists the fields that differ between two logged values. Non-object values
+ * are compared as a whole under the field name "value".
+ */
+export function auditChanges(event: AuditEvent) {
+  const { before, after } = event;
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  if (!isObject(before) && !isObject(after)) {
+    if ((before ?? null) === null && (after ?? null) === null) return [];
+    return [
+      { field: "value", before: formatValue(before), after: formatValue(after) },
+    ];
+  }
+  const from = isObject(before) ? before : {};
+  const to = isObject(after) ? after : {};
+  return [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(
+      (field) => JSON.stringify(from[field]) !== JSON.stringify(to[field])
+    )
+    .map((field) => ({
+      field,
+      before: formatValue(from[field]),
+      after: formatValue(to[field]),
+    }));
+}
+
+const csvHeaders: MessageKey[] = [
+  "audit.time",
+  "audit.user",
+  "audit.action",
+  "column.student",
+  "audit.field",
+  "audit.before",
+  "audit.after",
+];
+
+export function exportAuditCsv(
+  events: AuditEvent[],
+  locale: Locale,
+  timeZone: string
+) {
+  const lines = [
+    csvHeaders.map((key) => translate(locale, key)),
+    ...events.flatMap((event) => {
+      const base = [
+        formatDateTime(event.created_at, locale, timeZone),
+        event.actor,
+        actionLabel(event.action, locale),
+        event.student_name ?? "",
+      ];
+      const changes = auditChanges(event);
+      return changes.length
+        ? changes.map((change) => [
+            ...base,
+            change.field,
+            change.before,
+            change.after,
+          ])
+        : [[...base, "", "", ""]];
+    }),
+  ];
+  const blob = new Blob(["\uFEFF", toCsvText(lines)], {
+    type: "text/csv;charset=utf-8;",
+  });
+  downloadBlob(blob, "audit_log.csv");
+}
@@ -0,0 +1,84 @@
+import { downloadBlob } from "@/lib/export";
+import { DEFAULT_LOCALE, translate, type MessageKey } from "@/lib/i18n";
+
+/** Carries a message key so the UI can show the reason in its own language. */
+export class ChartImageError extends Error {
+  readonly key: MessageKey;
+
+  constructor(key: MessageKey) {
+    super(translate(DEFAULT_LOCALE, key));
+    this.name = "ChartImageError";
+    this.key = key;
+  }
+}
+
+const PAINT_PROPERTIES = [
+  "fill",
+  "stroke",
+  "stroke-width",
+  "opacity",
+  "font-family",
+  "font-size",
+];
+
+/**
+ * Copies computed paint onto the clone, since chart colours come from CSS
+ * variables that a standalone SVG can't resolve.
+ */
+function inlinePaint(source: Element, target: Element) {
+  const style = window.getComputedStyle(source);
+  PAINT_PROPERTIES.forEach((name) => {
+    const value = style.getPropertyValue(name);
+    if (value) target.setAttribute(name, value);
+  });
+  const sourceChildren = source.children;
+  const targetChildren = target.children;
+  for (let i = 0; i < sourceChildren.length; i += 1) {
+    inlinePaint(sourceChildren[i], targetChildren[i]);
+  }
+}
+
+/** Saves the first chart SVG inside `container` as a PNG on white. */
+export async function exportChartImage(
+  container: HTMLElement,
+  name: string,
+  scale = 2
+) {
+  const svg = container.querySelector("svg.recharts-surface");
+  if (!(svg instanceof SVGSVGElement)) {
+    throw new ChartImageError("chartImage.noChart");
+  }
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlinePaint(svg, clone);
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], {
+      type: "image/svg+xml;charset=utf-8",
+    })
+  );
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new ChartImageError("chartImage.noCanvas");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) throw new ChartImageError("chartImage.failed");
+    downloadBlob(blob, `${name}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,41 @@
+/** Repeat scans of the same student inside this window are ignored. */
+export const DOUBLE_SCAN_MS = 15000;
+
+/**
+ * Reads a student ID from a scanned code: either the bare ID or a JSON
+ * object with `student_id`.
+ */
+export function parseStudentCode(text: string): number | null {
+  const value = text.trim();
+  if (/^\d+$/.test(value)) return Number(value);
+  try {
+    const json: unknown = JSON.parse(value);
+    if (typeof json === "object" && json !== null && "student_id" in json) {
+      const id = Number(json.student_id);
+      return Number.isInteger(id) && id > 0 ? id : null;
+    }
+  } catch {
+    // Not JSON; fall through.
+  }
+  return null;
+}
+
+/**
+ * Tracks recent scans. `accept` answers `false` for a key (usually a student
+ * ID) seen within `windowMs` and records the scan otherwise; `forget` clears
+ * a key, e.g. after a failed request so the retry isn't blocked.
+ */
+export function createScanGuard<K = number>(windowMs = DOUBLE_SCAN_MS) {
+  const lastScan = new Map<K, number>();
+  return {
+    accept: (key: K, now = Date.now()) => {
+      const previous = lastScan.get(key);
+      if (previous !== undefined && now - previous < windowMs) return false;
+      lastScan.set(key, now);
+      return true;
+    },
+    forget: (key: K) => {
+      lastScan.delete(key);
+    },
+  };
+}
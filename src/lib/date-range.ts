@@ -0,0 +1,70 @@
+import {
+  DEFAULT_LOCALE,
+  intlLocale,
+  translate,
+  type Locale,
+} from "@/lib/i18n";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DateRange = { from: string; to: string };
+
+/** Short weekday name for a {@link dayOfWeek} value, e.g. "Mon". */
+export function weekdayLabel(day: number, locale: Locale = DEFAULT_LOCALE) {
+  // 2024-01-07 was a Sunday.
+  return new Date(Date.UTC(2024, 0, 7 + day)).toLocaleDateString(
+    intlLocale(locale),
+    { weekday: "short", timeZone: "UTC" }
+  );
+}
+
+export type RangePreset = "this-week" | "this-month" | "last-30-days";
+
+export function todayInCentre(timeZone: string) {
+  return new Date().toLocaleDateString("en-CA", { timeZone });
+}
+
+export function addDays(date: string, days: number) {
+  const time = new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function dayOfWeek(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** The Monday on or before `date`. */
+export function startOfWeek(date: string) {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+export function presetRange(preset: RangePreset, today: string) {
+  switch (preset) {
+    case "this-week":
+      return { from: startOfWeek(today), to: today };
+    case "this-month":
+      return { from: `${today.slice(0, 7)}-01`, to: today };
+    case "last-30-days":
+      return { from: addDays(today, -29), to: today };
+  }
+}
+
+/** The range from the earliest to the latest of `dates`; `null` if empty. */
+export function spanRange(dates: string[]): DateRange | null {
+  if (dates.length === 0) return null;
+  const sorted = [...dates].sort();
+  return { from: sorted[0], to: sorted[sorted.length - 1] };
+}
+
+export function isInRange(date: string, range: DateRange) {
+  return date >= range.from && date <= range.to;
+}
+
+export function formatRange(
+  range: DateRange,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return range.from === range.to
+    ? range.from
+    : translate(locale, "range.between", range);
+}
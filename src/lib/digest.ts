@@ -0,0 +1,176 @@
+import {
+  notificationFailures,
+  openCheckIns,
+  statusCounts,
+} from "@/lib/attendance";
+import { bucketCounts, type BucketCount } from "@/lib/distribution";
+import { formatDuration, recordMinutes } from "@/lib/duration";
+import {
+  intlLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n";
+import type { MailMessage } from "@/lib/mail-transport";
+import type { AttendanceRecord, DigestSettings } from "@/lib/types";
+
+export type DigestSummary = {
+  date: string;
+  total: number;
+  checkedIn: number;
+  checkedOut: number;
+  notified: number;
+  averageMinutes: number | null;
+  buckets: BucketCount[];
+  /** `reason` is `null` when the notification was never attempted. */
+  notificationFailures: { studentName: string; reason: string | null }[];
+  openCheckIns: string[];
+};
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  enabled: false,
+  recipients: [],
+  send_time: "20:00",
+};
+
+/** Same counts and buckets as the Current Day charts. */
+export function buildDigest(
+  records: AttendanceRecord[],
+  date: string,
+  bounds: number[]
+): DigestSummary {
+  const minutes = records
+    .map(recordMinutes)
+    .filter((value): value is number => value !== null);
+  return {
+    date,
+    total: records.length,
+    ...statusCounts(records),
+    averageMinutes: minutes.length
+      ? minutes.reduce((sum, value) => sum + value, 0) / minutes.length
+      : null,
+    buckets: bucketCounts(minutes, bounds),
+    notificationFailures: notificationFailures(records).map((row) => ({
+      studentName: row.student_name,
+      reason: row.failed_reason || row.parent_notified || null,
+    })),
+    openCheckIns: openCheckIns(records).map((row) => row.student_name),
+  };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const cellStyle = "padding:4px 8px;border-bottom:1px solid #e2e8f0;";
+
+function table(head: string[], rows: (string | number)[][]) {
+  const cells = (values: (string | number)[], tag: "th" | "td") =>
+    values
+      .map(
+        (value) =>
+          `<${tag} style="${cellStyle}text-align:left;">${escapeHtml(
+            String(value)
+          )}</${tag}>`
+      )
+      .join("");
+  return [
+    `<table style="border-collapse:collapse;font-size:14px;">`,
+    `<thead><tr>${cells(head, "th")}</tr></thead>`,
+    `<tbody>${rows.map((row) => `<tr>${cells(row, "td")}</tr>`).join("")}`,
+    `</tbody></table>`,
+  ].join("");
+}
+
+function heading(text: string) {
+  return `<h2 style="font-size:16px;margin:20px 0 8px;">${escapeHtml(
+    text
+  )}</h2>`;
+}
+
+function note(text: string) {
+  return `<p style="color:#64748b;">${escapeHtml(text)}</p>`;
+}
+
+/** Email-safe HTML with inline styles only. */
+export function renderDigestHtml(summary: DigestSummary, locale: Locale) {
+  const t = (key: MessageKey, params?: MessageParams) =>
+    translate(locale, key, params);
+  const sections = [
+    `<h1 style="font-size:20px;margin:0 0 4px;">${escapeHtml(
+      t("digestMail.title")
+    )}</h1>`,
+    `<p style="color:#64748b;margin:0 0 16px;">${escapeHtml(summary.date)}</p>`,
+    table(
+      (
+        [
+          "column.visits",
+          "chart.checkedIn",
+          "chart.checkedOut",
+          "chart.notified",
+          "profile.averageTime",
+        ] as const
+      ).map((key) => t(key)),
+      [
+        [
+          summary.total,
+          summary.checkedIn,
+          summary.checkedOut,
+          summary.notified,
+          summary.averageMinutes === null
+            ? "-"
+            : formatDuration(summary.averageMinutes, locale),
+        ],
+      ]
+    ),
+    heading(t("digestMail.timeSpent")),
+    table(
+      summary.buckets.map((bucket) => bucket.name),
+      [summary.buckets.map((bucket) => bucket.value)]
+    ),
+    heading(t("digestMail.stillIn", { count: summary.openCheckIns.length })),
+    summary.openCheckIns.length
+      ? `<p>${summary.openCheckIns.map(escapeHtml).join(", ")}</p>`
+      : note(t("digestMail.allOut")),
+    heading(
+      t("digestMail.failures", {
+        count: summary.notificationFailures.length,
+      })
+    ),
+    summary.notificationFailures.length
+      ? table(
+          [t("column.student"), t("digestMail.reason")],
+          summary.notificationFailures.map((failure) => [
+            failure.studentName,
+            failure.reason ?? t("digestMail.notSent"),
+          ])
+        )
+      : note(t("digestMail.allNotified")),
+  ];
+  const title = escapeHtml(t("digestMail.subject", { date: summary.date }));
+  return [
+    `<!doctype html><html lang="${intlLocale(locale)}"><head>`,
+    `<meta charset="utf-8">`,
+    `<title>${title}</title></head>`,
+    `<body style="font-family:Arial,sans-serif;color:#0f172a;">`,
+    ...sections,
+    `</body></html>`,
+  ].join("");
+}
+
+export function digestMessage(
+  settings: DigestSettings,
+  summary: DigestSummary,
+  locale: Locale
+): MailMessage {
+  return {
+    to: settings.recipients,
+    subject: translate(locale, "digestMail.subject", { date: summary.date }),
+    html: renderDigestHtml(summary, locale),
+  };
+}
@@ -0,0 +1,82 @@
+export const DEFAULT_BUCKET_BOUNDS = [15, 30, 45, 60];
+
+export type BucketCount = { name: string; value: number };
+
+export type BoxStats = {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  count: number;
+};
+
+export const PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+/** Sorted, de-duplicated positive upper bounds; invalid entries are dropped. */
+export function normalizeBounds(bounds: number[]) {
+  return [...new Set(bounds)]
+    .filter((bound) => Number.isFinite(bound) && bound > 0)
+    .sort((a, b) => a - b);
+}
+
+export function parseBounds(text: string) {
+  return normalizeBounds(
+    text
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number)
+  );
+}
+
+/**
+ * Buckets are half-open on the left, `(previous, bound]`, with an open-ended
+ * last bucket, so fractional minutes always land somewhere.
+ */
+export function bucketCounts(
+  values: number[],
+  bounds: number[]
+): BucketCount[] {
+  const counts = [
+    ...bounds.map((bound, i) => ({
+      name: `${i ? bounds[i - 1] : 0}-${bound}`,
+      value: 0,
+    })),
+    { name: `${bounds[bounds.length - 1] ?? 0}+`, value: 0 },
+  ];
+  values.forEach((value) => {
+    const idx = bounds.findIndex((bound) => value <= bound);
+    counts[idx < 0 ? bounds.length : idx].value += 1;
+  });
+  return counts;
+}
+
+/** Linear interpolation between closest ranks; `sorted` must be ascending. */
+export function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function boxStats(values: number[]): BoxStats | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    q1: percentile(sorted, 25),
+    median: percentile(sorted, 50),
+    q3: percentile(sorted, 75),
+    max: sorted[sorted.length - 1],
+    count: sorted.length,
+  };
+}
+
+export function cumulativeDistribution(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.map((minutes, i) => ({
+    minutes: Math.round(minutes * 10) / 10,
+    share: Math.round(((i + 1) / sorted.length) * 1000) / 10,
+  }));
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  describeDuration,
+  formatDuration,
+  parseDuration,
+  recordDuration,
+} from "@/lib/duration";
+
+const minutes = (value: number) => ({ ok: true, minutes: value });
+
+describe("parseDuration", () => {
+  it.each([
+    [45, 45],
+    [0, 0],
+    ["45", 45],
+    ["12.5", 12.5],
+    [" 90 ", 90],
+  ])("reads plain minutes %j", (value, expected) => {
+    expect(parseDuration(value)).toEqual(minutes(expected));
+  });
+
+  it.each([
+    ["1h 20m", 80],
+    ["1H20M", 80],
+    ["90 mins", 90],
+    ["1 hour and 20 minutes", 80],
+    ["2 hrs, 5 min", 125],
+    ["1 day", 1440],
+    ["30 seconds", 0.5],
+    ["1h 30s", 60.5],
+  ])("reads unit text %j", (value, expected) => {
+    expect(parseDuration(value)).toEqual(minutes(expected));
+  });
+
+  it.each([
+    ["1:20", 80],
+    ["01:20:30", 80.5],
+    ["0:05", 5],
+    ["12:00:00.6", 720.01],
+  ])("reads clock time %j", (value, expected) => {
+    const parsed = parseDuration(value);
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok) expect(parsed.minutes).toBeCloseTo(expected);
+  });
+
+  it.each([
+    ["PT1H20M", 80],
+    ["pt45m", 45],
+    ["PT1H20M30S", 80.5],
+    ["P1DT2H", 1560],
+    ["P1D", 1440],
+    ["PT0.5H", 30],
+  ])("reads ISO 8601 %j", (value, expected) => {
+    expect(parseDuration(value)).toEqual(minutes(expected));
+  });
+
+  it.each([null, undefined, "", "   "])("reports %j as missing", (value) => {
+    expect(parseDuration(value)).toEqual({ ok: false, reason: "missing" });
+  });
+
+  it.each([
+    "abc",
+    "1 fortnight",
+    "1h soon",
+    "1:75",
+    "P",
+    "PT",
+    "-5",
+    "h",
+  ])("reports %j as invalid and keeps the raw text", (value) => {
+    expect(parseDuration(value)).toEqual({
+      ok: false,
+      reason: "invalid",
+      raw: value,
+    });
+  });
+
+  it.each([-1, Number.NaN, Number.POSITIVE_INFINITY])(
+    "reports the number %d as invalid",
+    (value) => {
+      expect(parseDuration(value)).toEqual({
+        ok: false,
+        reason: "invalid",
+        raw: String(value),
+      });
+    }
+  );
+});
+
+describe("recordDuration", () => {
+  const checkIn = "2026-03-02T09:00:00Z";
+  const checkOut = "2026-03-02T10:15:00Z";
+
+  it("prefers time_spent when it parses", () => {
+    expect(
+      recordDuration({
+        time_spent: "30m",
+        checkin_time: checkIn,
+        checkout_time: checkOut,
+      })
+    ).toEqual(minutes(30));
+  });
+
+  it("falls back to check-in and check-out times when time_spent is missing", () => {
+    expect(
+      recordDuration({
+        time_spent: null,
+        checkin_time: checkIn,
+        checkout_time: checkOut,
+      })
+    ).toEqual(minutes(75));
+  });
+
+  it("does not guess when time_spent is unreadable", () => {
+    expect(
+      recordDuration({
+        time_spent: "soon",
+        checkin_time: checkIn,
+        checkout_time: checkOut,
+      })
+    ).toEqual({ ok: false, reason: "invalid", raw: "soon" });
+  });
+
+  it("stays missing without a check-out time", () => {
+    expect(
+      recordDuration({
+        time_spent: null,
+        checkin_time: checkIn,
+        checkout_time: null,
+      })
+    ).toEqual({ ok: false, reason: "missing" });
+  });
+
+  it.each([
+    ["a check-out before the check-in", checkOut, checkIn],
+    ["unparseable timestamps", "not a date", checkOut],
+  ])("stays missing for %s", (_, checkinTime, checkoutTime) => {
+    expect(
+      recordDuration({
+        time_spent: "",
+        checkin_time: checkinTime,
+        checkout_time: checkoutTime,
+      })
+    ).toEqual({ ok: false, reason: "missing" });
+  });
+});
+
+describe("formatDuration", () => {
+  it.each([
+    [0, "0m"],
+    [45, "45m"],
+    [60, "1h"],
+    [80, "1h 20m"],
+    [80.4, "1h 20m"],
+    [119.6, "2h"],
+    [1500, "25h"],
+  ])("formats %d minutes as %j", (value, expected) => {
+    expect(formatDuration(value)).toBe(expected);
+  });
+});
+
+describe("describeDuration", () => {
+  const row = { checkin_time: null, checkout_time: null };
+
+  it("formats readable durations", () => {
+    expect(describeDuration({ ...row, time_spent: "PT1H5M" })).toBe("1h 5m");
+  });
+
+  it("shows a dash when the duration is missing", () => {
+    expect(describeDuration({ ...row, time_spent: null })).toBe("-");
+  });
+
+  it("shows unreadable values as they were stored", () => {
+    expect(describeDuration({ ...row, time_spent: "soon" })).toContain(
+      "soon"
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  DEFAULT_LOCALE,
+  formatNumber,
+  translate,
+  type Locale,
+} from "@/lib/i18n";
+import type { AttendanceRecord } from "@/lib/types";
+
+export type ParsedDuration =
+  | { ok: true; minutes: number }
+  | { ok: false; reason: "missing" }
+  | { ok: false; reason: "invalid"; raw: string };
+
+const UNIT_MINUTES: Record<string, number> = {
+  d: 1440,
+  day: 1440,
+  days: 1440,
+  h: 60,
+  hr: 60,
+  hrs: 60,
+  hour: 60,
+  hours: 60,
+  m: 1,
+  min: 1,
+  mins: 1,
+  minute: 1,
+  minutes: 1,
+  s: 1 / 60,
+  sec: 1 / 60,
+  secs: 1 / 60,
+  second: 1 / 60,
+  seconds: 1 / 60,
+};
+
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+// `H:MM` or `H:MM:SS`, as produced by Postgres intervals.
+const CLOCK_PATTERN = /^(\d+):([0-5]\d)(?::([0-5]\d(?:\.\d+)?))?$/;
+const ISO_PATTERN =
+  /^p(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/;
+const UNIT_PATTERN = /(\d+(?:\.\d+)?)\s*([a-z]+)/g;
+
+function invalid(raw: string): ParsedDuration {
+  return { ok: false, reason: "invalid", raw };
+}
+
+function parseUnits(text: string) {
+  let minutes = 0;
+  let matched = false;
+  for (const [, amount, unit] of text.matchAll(UNIT_PATTERN)) {
+    const factor = UNIT_MINUTES[unit];
+    if (factor === undefined) return null;
+    minutes += Number(amount) * factor;
+    matched = true;
+  }
+  const rest = text.replace(UNIT_PATTERN, "").replace(/[\s,]|and/g, "");
+  return matched && !rest ? minutes : null;
+}
+
+/**
+ * Parses every `time_spent` format the backend has produced: plain minutes,
+ * "1h 20m", "90 mins", "1:20", "01:20:30" and ISO 8601 ("PT1H20M").
+ * Results are in minutes and keep seconds as a fraction.
+ */
+export function parseDuration(
+  value: string | number | null | undefined
+): ParsedDuration {
+  if (value === null || value === undefined) {
+    return { ok: false, reason: "missing" };
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0
+      ? { ok: true, minutes: value }
+      : invalid(String(value));
+  }
+
+  const text = value.trim().toLowerCase();
+  if (!text) return { ok: false, reason: "missing" };
+
+  if (NUMBER_PATTERN.test(text)) return { ok: true, minutes: Number(text) };
+
+  const clock = text.match(CLOCK_PATTERN);
+  if (clock) {
+    return {
+      ok: true,
+      minutes:
+        Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] ?? 0) / 60,
+    };
+  }
+
+  const iso = text.match(ISO_PATTERN);
+  if (iso) {
+    const [, days, hours, mins, secs] = iso;
+    if (![days, hours, mins, secs].some(Boolean)) return invalid(value);
+    return {
+      ok: true,
+      minutes:
+        Number(days ?? 0) * 1440 +
+        Number(hours ?? 0) * 60 +
+        Number(mins ?? 0) +
+        Number(secs ?? 0) / 60,
+    };
+  }
+
+  const minutes = parseUnits(text);
+  return minutes === null ? invalid(value) : { ok: true, minutes };
+}
+
+type TimedRecord = Pick<
+  AttendanceRecord,
+  "time_spent" | "checkin_time" | "checkout_time"
+>;
+
+/**
+ * Duration of a visit, computed from the check-in and check-out times when
+ * `time_spent` is missing. Unparseable values are reported, not guessed.
+ */
+export function recordDuration(row: TimedRecord): ParsedDuration {
+  const parsed = parseDuration(row.time_spent);
+  if (parsed.ok || parsed.reason === "invalid") return parsed;
+  if (!row.checkin_time || !row.checkout_time) return parsed;
+  const diff =
+    new Date(row.checkout_time).getTime() -
+    new Date(row.checkin_time).getTime();
+  if (Number.isNaN(diff) || diff < 0) return parsed;
+  return { ok: true, minutes: diff / 60000 };
+}
+
+export function recordMinutes(row: TimedRecord) {
+  const duration = recordDuration(row);
+  return duration.ok ? duration.minutes : null;
+}
+
+/** `1h 20m` in English; other locales use their own short units. */
+export function formatDuration(
+  minutes: number,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  const unit = (value: number, name: "hour" | "minute") =>
+    formatNumber(locale, value, {
+      style: "unit",
+      unit: name,
+      unitDisplay: "narrow",
+    });
+  if (!hours) return unit(rest, "minute");
+  return rest
+    ? `${unit(hours, "hour")} ${unit(rest, "minute")}`
+    : unit(hours, "hour");
+}
+
+/** Table/export label for a record's duration. */
+export function describeDuration(
+  row: TimedRecord,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const duration = recordDuration(row);
+  if (duration.ok) return formatDuration(duration.minutes, locale);
+  return duration.reason === "invalid"
+    ? translate(locale, "duration.unreadable", { raw: duration.raw })
+    : "-";
+}
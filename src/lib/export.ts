@@ -0,0 +1,331 @@
+import type { HookData } from "jspdf-autotable";
+
+import { formatDateTime, isNotified, summarizeByDay } from "@/lib/attendance";
+import { describeDuration, recordMinutes } from "@/lib/duration";
+import { formatRange, type DateRange } from "@/lib/date-range";
+import {
+  DEFAULT_LOCALE,
+  translate,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n";
+import type { AttendanceRecord } from "@/lib/types";
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+type ExportValue = string | number;
+
+export const EXPORT_COLUMNS = [
+  { key: "date", label: "column.date", value: (row) => row.date ?? "" },
+  {
+    key: "student_id",
+    label: "column.studentId",
+    value: (row) => row.student_id,
+  },
+  {
+    key: "student_name",
+    label: "column.student",
+    value: (row) => row.student_name,
+  },
+  { key: "status", label: "column.status", value: (row) => row.status },
+  {
+    key: "parent_notified",
+    label: "column.notified",
+    value: (row) => row.parent_notified ?? "",
+  },
+  {
+    key: "failed_reason",
+    label: "column.failedReason",
+    value: (row) => row.failed_reason ?? "",
+  },
+  {
+    key: "time_spent",
+    label: "column.timeSpent",
+    value: (row, locale) => describeDuration(row, locale),
+  },
+  {
+    key: "minutes",
+    label: "column.minutes",
+    value: (row) => {
+      const minutes = recordMinutes(row);
+      return minutes === null ? "" : Math.round(minutes * 10) / 10;
+    },
+  },
+  {
+    key: "checkin_time",
+    label: "column.checkIn",
+    value: (row, locale, timeZone) =>
+      formatDateTime(row.checkin_time, locale, timeZone),
+  },
+  {
+    key: "checkout_time",
+    label: "column.checkOut",
+    value: (row, locale, timeZone) =>
+      formatDateTime(row.checkout_time, locale, timeZone),
+  },
+] as const satisfies readonly {
+  key: string;
+  label: MessageKey;
+  value: (
+    row: AttendanceRecord,
+    locale: Locale,
+    timeZone: string
+  ) => ExportValue;
+}[];
+
+export type ExportColumnKey = (typeof EXPORT_COLUMNS)[number]["key"];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnKey[] = [
+  "student_name",
+  "status",
+  "parent_notified",
+  "failed_reason",
+  "time_spent",
+  "checkin_time",
+  "checkout_time",
+  "date",
+];
+
+export type ExportRequest = {
+  records: AttendanceRecord[];
+  columns: ExportColumnKey[];
+  /** Omitted when exporting the live Current Day records. */
+  range?: DateRange;
+  /** Language for headers, dates and durations. PDFs are always English. */
+  locale?: Locale;
+  /** The centre's, for check-in and check-out times. */
+  timeZone: string;
+};
+
+export type StudentTotal = {
+  studentId: number;
+  studentName: string;
+  visits: number;
+  /** Visits with a readable duration; the denominator for averages. */
+  timedVisits: number;
+  minutes: number;
+  notified: number;
+};
+
+function selectedColumns(keys: ExportColumnKey[]) {
+  return EXPORT_COLUMNS.filter((column) => keys.includes(column.key));
+}
+
+function fileName({ range }: ExportRequest, extension: string) {
+  if (!range) return `attendance_today.${extension}`;
+  return range.from === range.to
+    ? `attendance_${range.from}.${extension}`
+    : `attendance_${range.from}_${range.to}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function studentTotals(records: AttendanceRecord[]): StudentTotal[] {
+  const totals = new Map<number, StudentTotal>();
+  records.forEach((row) => {
+    const total = totals.get(row.student_id) ?? {
+      studentId: row.student_id,
+      studentName: row.student_name,
+      visits: 0,
+      timedVisits: 0,
+      minutes: 0,
+      notified: 0,
+    };
+    total.visits += 1;
+    const minutes = recordMinutes(row);
+    if (minutes !== null) {
+      total.timedVisits += 1;
+      total.minutes += minutes;
+    }
+    if (isNotified(row.parent_notified)) total.notified += 1;
+    totals.set(row.student_id, total);
+  });
+  return [...totals.values()].sort((a, b) =>
+    a.studentName.localeCompare(b.studentName)
+  );
+}
+
+export function toCsv(request: ExportRequest) {
+  const { locale = DEFAULT_LOCALE, timeZone } = request;
+  const columns = selectedColumns(request.columns);
+  const lines = [
+    columns.map((column) => translate(locale, column.label)),
+    ...request.records.map((row) =>
+      columns.map((column) => column.value(row, locale, timeZone))
+    ),
+  ];
+  return toCsvText(lines);
+}
+
+export function toCsvText(lines: unknown[][]) {
+  return lines
+    .map((line) =>
+      line
+        .map((value) => {
+          const text = String(value).replace(/"/g, '""');
+          return `"${text}"`;
+        })
+        .join(",")
+    )
+    .join("\n");
+}
+
+function exportCsv(request: ExportRequest) {
+  // The byte-order mark makes Excel read non-Latin headers as UTF-8.
+  const blob = new Blob(["\uFEFF", toCsv(request)], {
+    type: "text/csv;charset=utf-8;",
+  });
+  downloadBlob(blob, fileName(request, "csv"));
+}
+
+async function exportXlsx(request: ExportRequest) {
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const { locale = DEFAULT_LOCALE, timeZone } = request;
+  const columns = selectedColumns(request.columns);
+  const header = columns.map((column) => ({
+    value: translate(locale, column.label),
+    fontWeight: "bold" as const,
+  }));
+  const records = request.records.map((row) =>
+    columns.map((column) => column.value(row, locale, timeZone))
+  );
+  const totals = studentTotals(request.records).map((total) => [
+    total.studentName,
+    total.visits,
+    Math.round((total.minutes / 60) * 10) / 10,
+    total.visits ? Math.round((total.notified / total.visits) * 100) : 0,
+  ]);
+  const totalsHeader = (
+    [
+      "column.student",
+      "column.visits",
+      "column.hours",
+      "chart.notifiedRate",
+    ] as const
+  ).map((key) => ({
+    value: translate(locale, key),
+    fontWeight: "bold" as const,
+  }));
+  await writeXlsxFile([
+    { sheet: "Records", data: [header, ...records] },
+    { sheet: "Students", data: [totalsHeader, ...totals] },
+  ]).toFile(fileName(request, "xlsx"));
+}
+
+async function exportPdf(request: ExportRequest) {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+  const doc = new jsPDF({ orientation: "landscape" });
+  // Where the last table ended, on whichever page it finished.
+  let tableEnd = 0;
+  const trackEnd = (data: HookData) => {
+    tableEnd = data.cursor?.y ?? tableEnd;
+  };
+  // jsPDF's built-in fonts only cover Latin text.
+  const locale = DEFAULT_LOCALE;
+  const { records, timeZone } = request;
+  const totals = studentTotals(records);
+  const days = summarizeByDay(records);
+  const minutes = totals.reduce((sum, total) => sum + total.minutes, 0);
+  const notified = totals.reduce((sum, total) => sum + total.notified, 0);
+
+  doc.setFontSize(16);
+  doc.text(translate(locale, "pdf.title"), 14, 16);
+  doc.setFontSize(10);
+  doc.text(
+    request.range
+      ? formatRange(request.range, locale)
+      : translate(locale, "pdf.today"),
+    14,
+    22
+  );
+  doc.text(
+    [
+      translate(locale, "pdf.visits", { count: records.length }),
+      translate(locale, "pdf.students", { count: totals.length }),
+      translate(locale, "pdf.hours", { hours: (minutes / 60).toFixed(1) }),
+      translate(locale, "pdf.notified", {
+        percent: records.length
+          ? Math.round((notified / records.length) * 100)
+          : 0,
+      }),
+    ].join("    "),
+    14,
+    28
+  );
+
+  // Daily attendance bar chart.
+  const chart = { x: 14, y: 36, width: 268, height: 50 };
+  const maxTotal = Math.max(1, ...days.map((day) => day.total));
+  const barWidth = chart.width / Math.max(days.length, 1);
+  doc.setDrawColor(203, 213, 225);
+  const baseline = chart.y + chart.height;
+  doc.line(chart.x, baseline, chart.x + chart.width, baseline);
+  doc.setFillColor(37, 99, 235);
+  doc.setFontSize(6);
+  days.forEach((day, i) => {
+    const height = (day.total / maxTotal) * chart.height;
+    const x = chart.x + i * barWidth + barWidth * 0.15;
+    doc.rect(x, baseline - height, barWidth * 0.7, height, "F");
+    if (days.length <= 31) doc.text(day.date.slice(5), x, baseline + 4);
+  });
+
+  autoTable(doc, {
+    startY: baseline + 10,
+    head: [
+      (
+        [
+          "column.student",
+          "column.visits",
+          "column.hours",
+          "chart.averageMinutes",
+          "chart.notifiedRate",
+        ] as const
+      ).map((key) => translate(locale, key)),
+    ],
+    body: totals.map((total) => [
+      total.studentName,
+      total.visits,
+      (total.minutes / 60).toFixed(1),
+      total.timedVisits ? Math.round(total.minutes / total.timedVisits) : "",
+      `${Math.round((total.notified / total.visits) * 100)}%`,
+    ]),
+    didDrawPage: trackEnd,
+  });
+
+  const columns = selectedColumns(request.columns);
+  if (columns.length) {
+    autoTable(doc, {
+      startY: tableEnd + 10,
+      head: [columns.map((column) => translate(locale, column.label))],
+      body: records.map((row) =>
+        columns.map((column) => column.value(row, locale, timeZone))
+      ),
+      styles: { fontSize: 8 },
+    });
+  }
+
+  doc.save(fileName(request, "pdf"));
+}
+
+export function exportRecords(format: ExportFormat, request: ExportRequest) {
+  switch (format) {
+    case "csv":
+      return Promise.resolve(exportCsv(request));
+    case "xlsx":
+      return exportXlsx(request);
+    case "pdf":
+      return exportPdf(request);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { formatDuration } from "@/lib/duration";
+import { LOCALES, translate, type Locale, type Messages } from "@/lib/i18n";
+import { en } from "@/lib/locales/en";
+import { ms } from "@/lib/locales/ms";
+import { ta } from "@/lib/locales/ta";
+import { zh } from "@/lib/locales/zh";
+
+const catalogs: Record<Locale, Messages> = { en, zh, ms, ta };
+
+const placeholders = (template: string) =>
+  [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+
+describe.each(LOCALES.filter((locale) => locale !== "en"))("%s", (locale) => {
+  const catalog = catalogs[locale];
+
+  it("has the same keys as en", () => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it("uses the same placeholders as en", () => {
+    const mismatched = Object.entries(en)
+      .filter(
+        ([key, template]) =>
+          placeholders(catalog[key as keyof Messages] ?? "").join() !==
+          placeholders(template).join()
+      )
+      .map(([key]) => key);
+    expect(mismatched).toEqual([]);
+  });
+
+  it("has no empty messages", () => {
+    const empty = Object.entries(catalog)
+      .filter(([, message]) => !message.trim())
+      .map(([key]) => key);
+    expect(empty).toEqual([]);
+  });
+});
+
+describe("translate", () => {
+  it("fills in parameters", () => {
+    expect(translate("en", "pdf.visits", { count: 3 })).toBe("Visits: 3");
+  });
+
+  it("leaves unknown parameters as written", () => {
+    expect(translate("en", "pdf.visits", { total: 3 })).toBe("Visits: {count}");
+  });
+});
+
+describe("formatDuration", () => {
+  it("uses the locale's own units", () => {
+    expect(formatDuration(80, "zh")).not.toBe(formatDuration(80, "en"));
+  });
+});
@@ -0,0 +1,74 @@
+import { en } from "@/lib/locales/en";
+import { ms } from "@/lib/locales/ms";
+import { ta } from "@/lib/locales/ta";
+import { zh } from "@/lib/locales/zh";
+
+export const LOCALES = ["en", "zh", "ms", "ta"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export type MessageKey = keyof typeof en;
+
+/**
+ * Typing catalogs as `Messages` makes `tsc` reject one that is missing a key
+ * or has a stray one, so translations can't silently fall behind `en`.
+ */
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Messages> = { en, zh, ms, ta };
+
+/** Each language's own name, for the switcher. */
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  zh: "中文",
+  ms: "Bahasa Melayu",
+  ta: "தமிழ்",
+};
+
+const intlLocales: Record<Locale, string> = {
+  en: "en-SG",
+  zh: "zh-SG",
+  ms: "ms-SG",
+  ta: "ta-SG",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/** BCP 47 tag for `Intl` formatters. */
+export function intlLocale(locale: Locale) {
+  return intlLocales[locale];
+}
+
+/** First supported browser language, e.g. `zh-CN` picks `zh`. */
+export function browserLocale(): Locale {
+  const match = navigator.languages
+    .map((tag) => tag.split("-")[0].toLowerCase())
+    .find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+}
+
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams
+) {
+  const template = catalogs[locale][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export function formatNumber(
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions
+) {
+  return new Intl.NumberFormat(intlLocale(locale), options).format(value);
+}
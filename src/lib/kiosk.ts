@@ -0,0 +1,47 @@
+export const KIOSK_PATH = "/kiosk";
+
+const TOKEN_KEY = "kumi.kioskToken";
+
+/** All a kiosk is told about a student who is checked in. */
+export type KioskEntry = {
+  studentName: string;
+  checkinTime: string | null;
+};
+
+export function isKioskRoute(pathname = window.location.pathname) {
+  return pathname.replace(/\/+$/, "") === KIOSK_PATH;
+}
+
+/** Link that pairs a display; the token travels in the hash, not to servers. */
+export function kioskUrl(token: string) {
+  const hash = `token=${encodeURIComponent(token)}`;
+  return `${window.location.origin}${KIOSK_PATH}#${hash}`;
+}
+
+export function readKioskToken() {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function saveKioskToken(token: string) {
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+export function clearKioskToken() {
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/** Saves a token from a pairing link and strips it from the address bar. */
+export function takeTokenFromHash() {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const token = params.get("token");
+  if (!token) return null;
+  saveKioskToken(token);
+  window.history.replaceState(null, "", window.location.pathname);
+  return token;
+}
+
+export function sortKioskEntries(entries: KioskEntry[]) {
+  return [...entries].sort((a, b) =>
+    a.studentName.localeCompare(b.studentName)
+  );
+}
@@ -0,0 +1,462 @@
+/** Source catalog; every other locale must define exactly these keys. */
+export const en = {
+  "app.title": "Attendance Dashboard",
+  "app.subtitle": "Track today's check-ins and historical attendance by date.",
+  "app.language": "Language",
+  "app.centre": "Centre",
+  "app.security": "Security",
+  "app.signOut": "Sign out",
+
+  "signIn.title": "Kumon Attendance Dashboard",
+  "signIn.passwordDescription": "Sign in to view attendance data.",
+  "signIn.magicLinkDescription": "We'll email you a one-time sign-in link.",
+  "signIn.resetDescription":
+    "We'll email you a link to choose a new password.",
+  "signIn.email": "Email",
+  "signIn.password": "Password",
+  "signIn.submit": "Sign In",
+  "signIn.submitting": "Signing in...",
+  "signIn.sending": "Sending...",
+  "signIn.sendReset": "Send reset link",
+  "signIn.sendMagicLink": "Send sign-in link",
+  "signIn.forgotPassword": "Forgot password?",
+  "signIn.useMagicLink": "Email me a sign-in link",
+  "signIn.backToPassword": "Back to password sign-in",
+  "signIn.magicLinkSent": "Check {email} for your sign-in link.",
+  "signIn.resetSent": "If {email} has an account, a reset link is on its way.",
+
+  "session.expired": "Your session has expired. Please sign in again.",
+  "session.idleSignedOut": "You were signed out after a period of inactivity.",
+  "session.idleWarning": "Signing out in {seconds}s due to inactivity.",
+  "session.stay": "Stay signed in",
+
+  "realtime.connecting": "Connecting...",
+  "realtime.live": "Live",
+  "realtime.polling": "Polling (realtime offline)",
+
+  "offline.serverUnreachable": "Server unreachable.",
+  "offline.offline": "You're offline.",
+  "offline.showingSaved": "Showing data saved at {time}.",
+  "offline.rejected": "{count} offline change(s) were rejected by the server.",
+  "offline.pendingSignOut":
+    "{count} offline change(s) have not synced yet. They stay on this device and sync when you next sign in here. Sign out anyway?",
+
+  "tabs.current": "Current Day",
+  "tabs.history": "History",
+  "tabs.notifications": "Notifications",
+  "tabs.students": "Students",
+  "tabs.accounts": "Accounts",
+  "tabs.centres": "Centres",
+  "tabs.analytics": "Analytics",
+  "tabs.audit": "Audit",
+  "tabs.station": "Check-in Station",
+
+  "current.title": "Today's Records",
+  "current.description": "Latest check-ins from students_checkin.",
+  "current.empty": "No current records.",
+
+  "action.export": "Export",
+  "action.closeDay": "Close day",
+  "action.reopenDate": "Reopen / merge",
+  "action.checkIn": "Check in",
+  "action.checkOut": "Check out",
+  "action.edit": "Edit",
+
+  "chart.statusTitle": "Status Overview",
+  "chart.statusDescription": "Checked in/out and notified.",
+  "chart.dailyDescription": "Attendance per day and notification rate (%).",
+  "chart.timeSpentTitle": "Time Spent (mins)",
+  "chart.timeSpentDescription": "Average minutes per day.",
+  "chart.count": "Count",
+  "chart.checkedIn": "Checked In",
+  "chart.checkedOut": "Checked Out",
+  "chart.notified": "Notified",
+  "chart.notifiedRate": "Notified %",
+  "chart.averageMinutes": "Avg mins",
+
+  "history.datesTitle": "Archived Dates",
+  "history.datesDescription": "Select a date or range to view.",
+  "history.thisWeek": "This week",
+  "history.last30Days": "Last 30 days",
+  "history.from": "From",
+  "history.to": "To",
+  "history.noDates": "No archived days yet.",
+  "history.recordsTitle": "Archived Records",
+  "history.selectDate": "Select a date to view records.",
+  "history.recordCount": "{count} records",
+  "history.filteredCount": "{shown} of {total} records",
+  "history.countForRange": "{count} for {range}.",
+  "history.emptyRange": "No records for this range.",
+  "history.activity": "Recent day changes",
+
+  "column.date": "Date",
+  "column.studentId": "Student ID",
+  "column.student": "Student",
+  "column.status": "Status",
+  "column.notified": "Notified",
+  "column.failedReason": "Failed Reason",
+  "column.timeSpent": "Time Spent",
+  "column.minutes": "Minutes",
+  "column.checkIn": "Check In",
+  "column.checkOut": "Check Out",
+  "column.actions": "Actions",
+  "column.visits": "Visits",
+  "column.hours": "Hours",
+
+  "duration.unreadable": "{raw} (unreadable)",
+
+  "roster.notOnRoster": "Not on roster",
+  "roster.rosterName": "Roster: {name}",
+
+  "table.columns": "Columns",
+  "table.previousPage": "Previous page",
+  "table.nextPage": "Next page",
+  "table.range": "{from}-{to} of {total}",
+  "table.page": "Page {page} of {count}",
+
+  "filter.search": "Search student...",
+  "filter.allStatus": "All Status",
+  "filter.checkedIn": "Checked In",
+  "filter.checkedOut": "Checked Out",
+  "filter.allNotifications": "All Notifications",
+  "filter.notified": "Notified",
+  "filter.notNotified": "Not Notified",
+  "filter.failedReason": "Failed reason",
+  "filter.allFailureReasons": "All Failure Reasons",
+  "filter.noFailure": "No failure",
+  "filter.minMinutesPlaceholder": "Min mins",
+  "filter.minMinutes": "Minimum minutes",
+  "filter.maxMinutesPlaceholder": "Max mins",
+  "filter.maxMinutes": "Maximum minutes",
+  "filter.checkedInFrom": "Checked in from",
+  "filter.checkedInUntil": "Checked in until",
+  "filter.clear": "Clear filters",
+
+  "kiosk.title": "Here now",
+  "kiosk.empty": "No one is checked in right now.",
+  "kiosk.elapsed": "In for {duration}",
+  "kiosk.updated": "Updated {time}",
+  "kiosk.stale": "Couldn't refresh: {error}",
+  "kiosk.pairTitle": "Pair this display",
+  "kiosk.pairDescription":
+    "Open the pairing link from the dashboard, or paste its device token.",
+  "kiosk.token": "Device token",
+  "kiosk.pair": "Pair display",
+  "kiosk.revoked":
+    "This display was unpaired. Ask the centre owner for a new link.",
+
+  "alerts.title": "Alerts",
+  "alerts.description": "Open check-ins, unusual sessions and duplicates.",
+  "alerts.closingTime": "Closing time",
+  "alerts.enableNotifications": "Enable notifications",
+  "alerts.empty": "No alerts right now.",
+  "alerts.acknowledge": "Acknowledge",
+  "alerts.kindOpenAfterClosing": "Not checked out",
+  "alerts.kindLongSession": "Long session",
+  "alerts.kindShortSession": "Short session",
+  "alerts.kindDuplicate": "Duplicate check-in",
+  "alerts.openAfterClosing": "Still checked in after closing ({time}).",
+  "alerts.hereFor": "Here for {duration}, usually {usual}.",
+  "alerts.stayed": "Stayed {duration}, usually {usual}.",
+  "alerts.duplicate": "Checked in {count} times today.",
+  "alerts.notificationTitle": "Attendance alert: {name}",
+
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.delete": "Delete",
+  "common.undo": "Undo",
+  "common.dismiss": "Dismiss",
+  "range.between": "{from} to {to}",
+
+  "role.owner": "Owner",
+  "role.instructor": "Instructor",
+  "role.frontDesk": "Front desk",
+
+  "students.description": "The roster and the days each student is expected.",
+  "students.add": "Add student",
+  "students.addTitle": "Add Student",
+  "students.editTitle": "Edit Student",
+  "students.editorDescription":
+    "Scheduled days drive the expected attendance list.",
+  "students.name": "Name",
+  "students.nameRequired": "Name is required.",
+  "students.scheduledDays": "Scheduled days",
+  "students.empty": "No students on the roster.",
+  "students.confirmRemove": "Remove {name} from the roster?",
+
+  "timeSpent.buckets": "Buckets",
+  "timeSpent.boxPlot": "Box plot",
+  "timeSpent.cumulative": "Cumulative",
+  "timeSpent.percentiles": "Percentiles",
+  "timeSpent.median": "Median",
+  "timeSpent.summary": "{view} of {count} visit(s).",
+  "timeSpent.unreadable": "{count} unreadable value(s) not shown.",
+  "timeSpent.boxTooltip":
+    "median {median}, IQR {q1}-{q3}, range {min}-{max}, {count} visits",
+  "timeSpent.shareOfVisits": "% of visits",
+  "timeSpent.editBuckets": "Edit buckets",
+  "timeSpent.upperBounds": "Upper bounds (mins)",
+
+  "corrections.checkedIn": "Checked in {name}",
+  "corrections.checkedOut": "Checked out {name}",
+  "corrections.updatedTimes": "Updated times for {name}",
+  "corrections.undid": "Undid: {label}",
+
+  "profile.description": "Attendance across {count} archived days.",
+  "profile.thisMonth": "This month",
+  "profile.visits": "{count} visits",
+  "profile.attendanceRate": "Attendance rate",
+  "profile.averageTime": "Average time",
+  "profile.steady": "Steady",
+  "profile.trendUp": "Up {minutes} mins per visit",
+  "profile.trendDown": "Down {minutes} mins per visit",
+  "profile.parentNotified": "Parent notified",
+  "profile.calendar": "Attendance calendar",
+  "profile.attended": "attended",
+  "profile.absent": "absent",
+  "profile.noSession": "no session",
+  "profile.timePerVisit": "Time spent per visit",
+  "profile.noVisits": "No visits recorded.",
+  "profile.notificationFailures": "Notification failures",
+  "profile.noFailures": "No failures.",
+
+  "triage.title": "Notification Follow-up",
+  "triage.description":
+    "Parents who were not notified, grouped by failure reason.",
+  "triage.empty": "Every loaded record was delivered.",
+  "triage.noReason": "No reason given",
+  "triage.resend": "Resend",
+  "triage.contactedManually": "Contacted manually",
+  "triage.resent": "Resent",
+  "triage.markedContacted": "Marked contacted",
+  "triage.auditLine": "{action} by {actor}, {time}",
+
+  "export.title": "Export Attendance",
+  "export.description": "Times are exported in the centre's local time.",
+  "export.filtersApplied": "Active filters are applied.",
+  "export.records": "Records",
+  "export.today": "Today ({date})",
+  "export.archivedRange": "Archived date range",
+  "export.thisMonth": "This month",
+  "export.format": "Format",
+  "export.formatCsv": "CSV",
+  "export.formatXlsx": "Excel (XLSX)",
+  "export.formatPdf": "PDF report",
+  "export.exporting": "Exporting...",
+
+  "timeEditor.description": "Correct times for {date} (centre time).",
+  "timeEditor.checkinRequired": "Check-in time is required.",
+  "timeEditor.checkoutBeforeCheckin": "Check-out must be after check-in.",
+
+  "accounts.description": "Set what each staff account can access.",
+  "accounts.email": "Email",
+  "accounts.role": "Role",
+  "accounts.empty": "No accounts.",
+
+  "digest.title": "Daily Digest",
+  "digest.description":
+    "The server emails today's summary at the send time (centre time).",
+  "digest.lastSent": "Last sent {time}.",
+  "digest.enabled": "Send a digest every day",
+  "digest.recipients": "Recipients",
+  "digest.recipientsPlaceholder": "One email per line",
+  "digest.sendTime": "Send time",
+  "digest.delivery": "Test delivery",
+  "digest.transportEmail": "Email",
+  "digest.transportFile": "Download HTML file (testing)",
+  "digest.invalidEmail": "{email} is not a valid email address.",
+  "digest.noRecipients": "Add at least one recipient.",
+  "digest.saved": "Digest settings saved.",
+  "digest.preview": "Preview",
+  "digest.sendTest": "Send test",
+  "digest.testSent": "Test digest sent.",
+  "digest.to": "To: {recipients}",
+  "digest.noRecipientsYet": "no recipients yet",
+
+  "common.loading": "Loading...",
+
+  "mfa.title": "Two-factor authentication",
+  "mfa.challengeDescription":
+    "Enter the 6-digit code from your authenticator app.",
+  "mfa.enabledDescription":
+    "A code from your authenticator app is required at sign-in.",
+  "mfa.offDescription": "Require a code from an authenticator app at sign-in.",
+  "mfa.code": "Authentication code",
+  "mfa.noFactor": "No authenticator app is set up.",
+  "mfa.verify": "Verify",
+  "mfa.verifying": "Verifying...",
+  "mfa.differentAccount": "Use a different account",
+  "mfa.scan":
+    "Scan this code with your authenticator app, then enter the 6-digit code it shows.",
+  "mfa.qrCode": "Authenticator QR code",
+  "mfa.setUp": "Set up",
+  "mfa.turnOn": "Turn on",
+  "mfa.turnOff": "Turn off",
+  "mfa.confirmTurnOff": "Turn off two-factor authentication?",
+
+  "recovery.title": "Choose a new password",
+  "recovery.description": "You'll stay signed in once it's saved.",
+  "recovery.newPassword": "New password",
+  "recovery.confirmPassword": "Confirm password",
+  "recovery.tooShort": "Use at least {count} characters.",
+  "recovery.mismatch": "The passwords don't match.",
+  "recovery.save": "Save password",
+
+  "expected.title": "Expected but not checked in",
+  "expected.description": "Scheduled for today per the student roster.",
+  "expected.empty": "Everyone expected is here.",
+  "expected.flagged": "{count} record(s) don't match the roster.",
+
+  "comparison.title": "Centre Comparison",
+  "comparison.today": "Today",
+  "comparison.todayDescription": "Today's visits at each centre.",
+  "comparison.rangeDescription":
+    "Visits at each centre. Each centre's dates follow its own time zone.",
+  "comparison.dates": "Dates",
+
+  "closeDay.title": "Close {date}",
+  "closeDay.description":
+    "{count} record(s) will move to History and Today will start empty.",
+  "closeDay.open": "Still checked in ({count})",
+  "closeDay.noneOpen": "Everyone has left.",
+  "closeDay.openWarning": "These will be archived without a check-out time.",
+  "closeDay.failed": "Parents not notified ({count})",
+  "closeDay.noneFailed": "Every parent was notified or contacted.",
+  "closeDay.notSent": "Not sent",
+  "closeDay.failedHint":
+    "Mark them contacted in Notifications first if you've reached them another way.",
+  "closeDay.confirm": "I've reviewed the list above.",
+  "closeDay.closing": "Closing...",
+
+  "reopen.title": "Reopen or merge {date}",
+  "reopen.description":
+    "Undo a day that was closed early or under the wrong date.",
+  "reopen.reopenOption": "Reopen: move its records back to the current day.",
+  "reopen.currentWarning":
+    "They will sit alongside the {count} record(s) already there.",
+  "reopen.mergeOption": "Merge: move its records into another archived date.",
+  "reopen.mergeInto": "Merge into",
+  "reopen.confirm": "{date} will be removed from History.",
+  "reopen.reopen": "Reopen",
+  "reopen.merge": "Merge",
+
+  "dayActivity.entry": "{action} {date} by {actor}, {time}",
+
+  "audit.title": "Audit Log",
+  "audit.description":
+    "Who changed, exported or signed in, with the values before and after.",
+  "audit.exportCsv": "Export CSV",
+  "audit.userPlaceholder": "User email...",
+  "audit.allStudents": "All students",
+  "audit.allActions": "All actions",
+  "audit.time": "Time",
+  "audit.user": "User",
+  "audit.action": "Action",
+  "audit.change": "Change",
+  "audit.field": "Field",
+  "audit.before": "Before",
+  "audit.after": "After",
+  "audit.empty": "No events match these filters.",
+
+  "auditAction.recordUpdate": "Record edited",
+  "auditAction.recordScan": "Station scan",
+  "auditAction.notificationUpdate": "Notification follow-up",
+  "auditAction.dateArchive": "Day closed",
+  "auditAction.dateReopen": "Date reopened",
+  "auditAction.dateMerge": "Date merged",
+  "auditAction.accountRole": "Role changed",
+  "auditAction.studentCreate": "Student added",
+  "auditAction.studentUpdate": "Student edited",
+  "auditAction.studentDelete": "Student removed",
+  "auditAction.digestSettings": "Digest settings",
+  "auditAction.digestSend": "Digest sent",
+  "auditAction.kioskCreate": "Kiosk paired",
+  "auditAction.kioskRevoke": "Kiosk revoked",
+  "auditAction.export": "Export",
+  "auditAction.signIn": "Sign in",
+  "auditAction.signOut": "Sign out",
+
+  "kioskDevices.title": "Lobby Displays",
+  "kioskDevices.description":
+    "Read-only \"who's here now\" screens. Each display gets its own token that can only see the names and check-in times of students here now.",
+  "kioskDevices.name": "Display name",
+  "kioskDevices.namePlaceholder": "Display name, e.g. Front lobby",
+  "kioskDevices.add": "Add display",
+  "kioskDevices.pairingLink":
+    "Open this link on the display. It won't be shown again.",
+  "kioskDevices.copy": "Copy",
+  "kioskDevices.lastSeen": "Last seen {time}",
+  "kioskDevices.notSeen": "Not seen yet",
+  "kioskDevices.unpair": "Unpair",
+  "kioskDevices.confirmUnpair": "Unpair {label}? It will stop updating.",
+  "kioskDevices.empty": "No displays paired.",
+
+  "station.description":
+    "Scan a student's QR card to check them in, or out if they're already here.",
+  "station.useCamera": "Use camera",
+  "station.stopCamera": "Stop camera",
+  "station.code": "Student code",
+  "station.codePlaceholder": "Scan or type a student ID, then press Enter",
+  "station.cameraOff": "Camera off",
+  "station.cameraUnsupported":
+    "This browser can't read QR codes; use a USB scanner.",
+  "station.cameraStarting": "Starting camera...",
+  "station.cameraScanning": "Scanning",
+  "station.cameraError": "Camera unavailable",
+  "station.unreadable": "Unreadable code",
+  "station.unknownStudent": "Unknown student",
+  "station.notOnRoster": "No student with ID {id} is on the roster.",
+  "station.student": "Student {id}",
+  "station.alreadyScanned": "Already scanned a moment ago.",
+  "station.savedOffline": "Saved offline; it will sync when back online.",
+  "station.recentTitle": "Recent Scans",
+  "station.recentDescription": "Repeat scans within a few seconds are ignored.",
+  "station.noScans": "No scans yet.",
+
+  "analytics.saveImage": "Save image",
+  "analytics.basedOn":
+    "Based on {records} archived records across {days} day(s).",
+  "analytics.weeklyTitle": "Weekly Attendance",
+  "analytics.weeklyDescription": "Visits and distinct students per week.",
+  "analytics.heatmapTitle": "Check-in Heatmap",
+  "analytics.heatmapDescription":
+    "Check-ins by weekday and hour (centre time).",
+  "analytics.hour": "Hour",
+  "analytics.day": "Day",
+  "analytics.checkIns": "Check-ins",
+  "analytics.deliveryTitle": "Notification Delivery",
+  "analytics.deliveryDescription":
+    "Share of each week's visits by notification outcome.",
+  "analytics.delivered": "Delivered",
+  "analytics.notDelivered": "Not delivered",
+  "analytics.churnTitle": "Churn Risk",
+  "analytics.churnDescription":
+    "Students who came half as often or less in the last {weeks} weeks as in the {weeks} before.",
+  "analytics.before": "Before",
+  "analytics.recent": "Recent",
+  "analytics.lastVisit": "Last visit",
+  "analytics.noChurn": "No students with declining visits.",
+
+  "pdf.title": "Attendance Report",
+  "pdf.today": "Today",
+  "pdf.visits": "Visits: {count}",
+  "pdf.students": "Students: {count}",
+  "pdf.hours": "Hours: {hours}",
+  "pdf.notified": "Parents notified: {percent}%",
+
+  "digestMail.title": "Attendance digest",
+  "digestMail.subject": "Attendance digest for {date}",
+  "digestMail.timeSpent": "Time spent (mins)",
+  "digestMail.stillIn": "Still checked in ({count})",
+  "digestMail.allOut": "Everyone has checked out.",
+  "digestMail.failures": "Notification failures ({count})",
+  "digestMail.allNotified": "All parents were notified.",
+  "digestMail.reason": "Reason",
+  "digestMail.notSent": "Not sent",
+
+  "chartImage.noChart": "There is no chart to export yet.",
+  "chartImage.noCanvas": "Canvas is not available.",
+  "chartImage.failed": "Could not create the image.",
+};
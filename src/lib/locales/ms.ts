@@ -0,0 +1,480 @@
+import type { Messages } from "@/lib/i18n";
+
+export const ms: Messages = {
+  "app.title": "Papan Pemuka Kehadiran",
+  "app.subtitle":
+    "Jejaki daftar masuk hari ini dan sejarah kehadiran mengikut tarikh.",
+  "app.language": "Bahasa",
+  "app.centre": "Pusat",
+  "app.security": "Keselamatan",
+  "app.signOut": "Log keluar",
+
+  "signIn.title": "Papan Pemuka Kehadiran Kumon",
+  "signIn.passwordDescription": "Log masuk untuk melihat data kehadiran.",
+  "signIn.magicLinkDescription":
+    "Kami akan e-melkan pautan log masuk sekali guna kepada anda.",
+  "signIn.resetDescription":
+    "Kami akan e-melkan pautan untuk memilih kata laluan baharu.",
+  "signIn.email": "E-mel",
+  "signIn.password": "Kata laluan",
+  "signIn.submit": "Log Masuk",
+  "signIn.submitting": "Sedang log masuk...",
+  "signIn.sending": "Sedang menghantar...",
+  "signIn.sendReset": "Hantar pautan set semula",
+  "signIn.sendMagicLink": "Hantar pautan log masuk",
+  "signIn.forgotPassword": "Lupa kata laluan?",
+  "signIn.useMagicLink": "E-melkan saya pautan log masuk",
+  "signIn.backToPassword": "Kembali ke log masuk kata laluan",
+  "signIn.magicLinkSent": "Semak {email} untuk pautan log masuk anda.",
+  "signIn.resetSent":
+    "Jika {email} mempunyai akaun, pautan set semula sedang dihantar.",
+
+  "session.expired": "Sesi anda telah tamat. Sila log masuk semula.",
+  "session.idleSignedOut":
+    "Anda telah dilog keluar selepas tidak aktif untuk satu tempoh.",
+  "session.idleWarning":
+    "Log keluar dalam {seconds}s kerana tiada aktiviti.",
+  "session.stay": "Kekal log masuk",
+
+  "realtime.connecting": "Menyambung...",
+  "realtime.live": "Langsung",
+  "realtime.polling": "Meninjau (masa nyata di luar talian)",
+
+  "offline.serverUnreachable": "Pelayan tidak dapat dicapai.",
+  "offline.offline": "Anda di luar talian.",
+  "offline.showingSaved": "Memaparkan data yang disimpan pada {time}.",
+  "offline.rejected": "{count} perubahan luar talian ditolak oleh pelayan.",
+  "offline.pendingSignOut":
+    "{count} perubahan luar talian belum disegerakkan. Ia kekal pada peranti ini dan disegerakkan apabila anda log masuk semula di sini. Log keluar juga?",
+
+  "tabs.current": "Hari Ini",
+  "tabs.history": "Sejarah",
+  "tabs.notifications": "Pemberitahuan",
+  "tabs.students": "Pelajar",
+  "tabs.accounts": "Akaun",
+  "tabs.centres": "Pusat",
+  "tabs.analytics": "Analitik",
+  "tabs.audit": "Audit",
+  "tabs.station": "Stesen Daftar Masuk",
+
+  "current.title": "Rekod Hari Ini",
+  "current.description": "Daftar masuk terkini daripada students_checkin.",
+  "current.empty": "Tiada rekod semasa.",
+
+  "action.export": "Eksport",
+  "action.closeDay": "Tutup hari",
+  "action.reopenDate": "Buka semula / gabung",
+  "action.checkIn": "Daftar masuk",
+  "action.checkOut": "Daftar keluar",
+  "action.edit": "Sunting",
+
+  "chart.statusTitle": "Gambaran Status",
+  "chart.statusDescription": "Daftar masuk/keluar dan telah dimaklumkan.",
+  "chart.dailyDescription":
+    "Kehadiran setiap hari dan kadar pemberitahuan (%).",
+  "chart.timeSpentTitle": "Masa Dihabiskan (minit)",
+  "chart.timeSpentDescription": "Purata minit setiap hari.",
+  "chart.count": "Bilangan",
+  "chart.checkedIn": "Daftar Masuk",
+  "chart.checkedOut": "Daftar Keluar",
+  "chart.notified": "Dimaklumkan",
+  "chart.notifiedRate": "% Dimaklumkan",
+  "chart.averageMinutes": "Purata minit",
+
+  "history.datesTitle": "Tarikh Arkib",
+  "history.datesDescription": "Pilih tarikh atau julat untuk dilihat.",
+  "history.thisWeek": "Minggu ini",
+  "history.last30Days": "30 hari lepas",
+  "history.from": "Dari",
+  "history.to": "Hingga",
+  "history.noDates": "Belum ada hari diarkibkan.",
+  "history.recordsTitle": "Rekod Arkib",
+  "history.selectDate": "Pilih tarikh untuk melihat rekod.",
+  "history.recordCount": "{count} rekod",
+  "history.filteredCount": "{shown} daripada {total} rekod",
+  "history.countForRange": "{count} untuk {range}.",
+  "history.emptyRange": "Tiada rekod untuk julat ini.",
+  "history.activity": "Perubahan hari terkini",
+
+  "column.date": "Tarikh",
+  "column.studentId": "ID Pelajar",
+  "column.student": "Pelajar",
+  "column.status": "Status",
+  "column.notified": "Dimaklumkan",
+  "column.failedReason": "Sebab Gagal",
+  "column.timeSpent": "Masa Dihabiskan",
+  "column.minutes": "Minit",
+  "column.checkIn": "Daftar Masuk",
+  "column.checkOut": "Daftar Keluar",
+  "column.actions": "Tindakan",
+  "column.visits": "Lawatan",
+  "column.hours": "Jam",
+
+  "duration.unreadable": "{raw} (tidak dapat dibaca)",
+
+  "roster.notOnRoster": "Tiada dalam senarai",
+  "roster.rosterName": "Senarai: {name}",
+
+  "table.columns": "Lajur",
+  "table.previousPage": "Halaman sebelumnya",
+  "table.nextPage": "Halaman seterusnya",
+  "table.range": "{from}-{to} daripada {total}",
+  "table.page": "Halaman {page} daripada {count}",
+
+  "filter.search": "Cari pelajar...",
+  "filter.allStatus": "Semua Status",
+  "filter.checkedIn": "Daftar Masuk",
+  "filter.checkedOut": "Daftar Keluar",
+  "filter.allNotifications": "Semua Pemberitahuan",
+  "filter.notified": "Dimaklumkan",
+  "filter.notNotified": "Belum Dimaklumkan",
+  "filter.failedReason": "Sebab gagal",
+  "filter.allFailureReasons": "Semua Sebab Gagal",
+  "filter.noFailure": "Tiada kegagalan",
+  "filter.minMinutesPlaceholder": "Min minit",
+  "filter.minMinutes": "Minit minimum",
+  "filter.maxMinutesPlaceholder": "Maks minit",
+  "filter.maxMinutes": "Minit maksimum",
+  "filter.checkedInFrom": "Daftar masuk dari",
+  "filter.checkedInUntil": "Daftar masuk hingga",
+  "filter.clear": "Kosongkan penapis",
+
+  "kiosk.title": "Ada sekarang",
+  "kiosk.empty": "Tiada sesiapa mendaftar masuk sekarang.",
+  "kiosk.elapsed": "Hadir {duration}",
+  "kiosk.updated": "Dikemas kini {time}",
+  "kiosk.stale": "Tidak dapat memuat semula: {error}",
+  "kiosk.pairTitle": "Pasangkan paparan ini",
+  "kiosk.pairDescription":
+    "Buka pautan pasangan dari papan pemuka, atau tampal token perantinya.",
+  "kiosk.token": "Token peranti",
+  "kiosk.pair": "Pasangkan paparan",
+  "kiosk.revoked":
+    "Paparan ini telah dinyahpasangkan. Minta pautan baharu daripada pemilik pusat.",
+
+  "alerts.title": "Amaran",
+  "alerts.description": "Daftar masuk terbuka, sesi luar biasa dan pendua.",
+  "alerts.closingTime": "Waktu tutup",
+  "alerts.enableNotifications": "Dayakan pemberitahuan",
+  "alerts.empty": "Tiada amaran buat masa ini.",
+  "alerts.acknowledge": "Akui",
+  "alerts.kindOpenAfterClosing": "Belum daftar keluar",
+  "alerts.kindLongSession": "Sesi panjang",
+  "alerts.kindShortSession": "Sesi pendek",
+  "alerts.kindDuplicate": "Daftar masuk berganda",
+  "alerts.openAfterClosing":
+    "Masih belum daftar keluar selepas waktu tutup ({time}).",
+  "alerts.hereFor": "Sudah di sini {duration}, biasanya {usual}.",
+  "alerts.stayed": "Berada {duration}, biasanya {usual}.",
+  "alerts.duplicate": "Daftar masuk {count} kali hari ini.",
+  "alerts.notificationTitle": "Amaran kehadiran: {name}",
+
+  "common.save": "Simpan",
+  "common.saving": "Menyimpan...",
+  "common.cancel": "Batal",
+  "common.close": "Tutup",
+  "common.delete": "Padam",
+  "common.undo": "Buat asal",
+  "common.dismiss": "Tutup",
+  "range.between": "{from} hingga {to}",
+
+  "role.owner": "Pemilik",
+  "role.instructor": "Pengajar",
+  "role.frontDesk": "Kaunter hadapan",
+
+  "students.description":
+    "Senarai pelajar dan hari setiap pelajar dijangka hadir.",
+  "students.add": "Tambah pelajar",
+  "students.addTitle": "Tambah Pelajar",
+  "students.editTitle": "Sunting Pelajar",
+  "students.editorDescription":
+    "Hari berjadual menentukan senarai kehadiran yang dijangka.",
+  "students.name": "Nama",
+  "students.nameRequired": "Nama diperlukan.",
+  "students.scheduledDays": "Hari berjadual",
+  "students.empty": "Tiada pelajar dalam senarai.",
+  "students.confirmRemove": "Keluarkan {name} daripada senarai?",
+
+  "timeSpent.buckets": "Julat",
+  "timeSpent.boxPlot": "Plot kotak",
+  "timeSpent.cumulative": "Kumulatif",
+  "timeSpent.percentiles": "Persentil",
+  "timeSpent.median": "Median",
+  "timeSpent.summary": "{view} bagi {count} lawatan.",
+  "timeSpent.unreadable":
+    "{count} nilai yang tidak dapat dibaca tidak ditunjukkan.",
+  "timeSpent.boxTooltip":
+    "median {median}, IQR {q1}-{q3}, julat {min}-{max}, {count} lawatan",
+  "timeSpent.shareOfVisits": "% lawatan",
+  "timeSpent.editBuckets": "Sunting julat",
+  "timeSpent.upperBounds": "Had atas (minit)",
+
+  "corrections.checkedIn": "{name} telah didaftar masuk",
+  "corrections.checkedOut": "{name} telah didaftar keluar",
+  "corrections.updatedTimes": "Masa untuk {name} dikemas kini",
+  "corrections.undid": "Dibuat asal: {label}",
+
+  "profile.description": "Kehadiran merentas {count} hari yang diarkibkan.",
+  "profile.thisMonth": "Bulan ini",
+  "profile.visits": "{count} lawatan",
+  "profile.attendanceRate": "Kadar kehadiran",
+  "profile.averageTime": "Purata masa",
+  "profile.steady": "Stabil",
+  "profile.trendUp": "Naik {minutes} minit setiap lawatan",
+  "profile.trendDown": "Turun {minutes} minit setiap lawatan",
+  "profile.parentNotified": "Ibu bapa dimaklumkan",
+  "profile.calendar": "Kalendar kehadiran",
+  "profile.attended": "hadir",
+  "profile.absent": "tidak hadir",
+  "profile.noSession": "tiada sesi",
+  "profile.timePerVisit": "Masa setiap lawatan",
+  "profile.noVisits": "Tiada lawatan direkodkan.",
+  "profile.notificationFailures": "Kegagalan pemberitahuan",
+  "profile.noFailures": "Tiada kegagalan.",
+
+  "triage.title": "Susulan Pemberitahuan",
+  "triage.description":
+    "Ibu bapa yang tidak dimaklumkan, dikumpulkan mengikut sebab kegagalan.",
+  "triage.empty": "Setiap rekod yang dimuatkan telah dihantar.",
+  "triage.noReason": "Tiada sebab diberikan",
+  "triage.resend": "Hantar semula",
+  "triage.contactedManually": "Dihubungi secara manual",
+  "triage.resent": "Dihantar semula",
+  "triage.markedContacted": "Ditanda sebagai dihubungi",
+  "triage.auditLine": "{action} oleh {actor}, {time}",
+
+  "export.title": "Eksport Kehadiran",
+  "export.description": "Masa dieksport mengikut waktu tempatan pusat.",
+  "export.filtersApplied": "Penapis aktif digunakan.",
+  "export.records": "Rekod",
+  "export.today": "Hari ini ({date})",
+  "export.archivedRange": "Julat tarikh arkib",
+  "export.thisMonth": "Bulan ini",
+  "export.format": "Format",
+  "export.formatCsv": "CSV",
+  "export.formatXlsx": "Excel (XLSX)",
+  "export.formatPdf": "Laporan PDF",
+  "export.exporting": "Sedang mengeksport...",
+
+  "timeEditor.description": "Betulkan masa untuk {date} (waktu pusat).",
+  "timeEditor.checkinRequired": "Masa daftar masuk diperlukan.",
+  "timeEditor.checkoutBeforeCheckin":
+    "Daftar keluar mesti selepas daftar masuk.",
+
+  "accounts.description":
+    "Tetapkan perkara yang boleh diakses oleh setiap akaun kakitangan.",
+  "accounts.email": "E-mel",
+  "accounts.role": "Peranan",
+  "accounts.empty": "Tiada akaun.",
+
+  "digest.title": "Ringkasan Harian",
+  "digest.description":
+    "Pelayan menghantar ringkasan hari ini melalui e-mel pada masa hantar (waktu pusat).",
+  "digest.lastSent": "Kali terakhir dihantar {time}.",
+  "digest.enabled": "Hantar ringkasan setiap hari",
+  "digest.recipients": "Penerima",
+  "digest.recipientsPlaceholder": "Satu e-mel setiap baris",
+  "digest.sendTime": "Masa hantar",
+  "digest.delivery": "Penghantaran ujian",
+  "digest.transportEmail": "E-mel",
+  "digest.transportFile": "Muat turun fail HTML (ujian)",
+  "digest.invalidEmail": "{email} bukan alamat e-mel yang sah.",
+  "digest.noRecipients": "Tambah sekurang-kurangnya seorang penerima.",
+  "digest.saved": "Tetapan ringkasan disimpan.",
+  "digest.preview": "Pratonton",
+  "digest.sendTest": "Hantar ujian",
+  "digest.testSent": "Ringkasan ujian dihantar.",
+  "digest.to": "Kepada: {recipients}",
+  "digest.noRecipientsYet": "belum ada penerima",
+
+  "common.loading": "Memuatkan...",
+
+  "mfa.title": "Pengesahan dua faktor",
+  "mfa.challengeDescription":
+    "Masukkan kod 6 digit daripada aplikasi pengesah anda.",
+  "mfa.enabledDescription":
+    "Kod daripada aplikasi pengesah anda diperlukan semasa log masuk.",
+  "mfa.offDescription":
+    "Perlukan kod daripada aplikasi pengesah semasa log masuk.",
+  "mfa.code": "Kod pengesahan",
+  "mfa.noFactor": "Tiada aplikasi pengesah disediakan.",
+  "mfa.verify": "Sahkan",
+  "mfa.verifying": "Mengesahkan...",
+  "mfa.differentAccount": "Guna akaun lain",
+  "mfa.scan":
+    "Imbas kod ini dengan aplikasi pengesah anda, kemudian masukkan kod 6 digit yang dipaparkan.",
+  "mfa.qrCode": "Kod QR pengesah",
+  "mfa.setUp": "Sediakan",
+  "mfa.turnOn": "Hidupkan",
+  "mfa.turnOff": "Matikan",
+  "mfa.confirmTurnOff": "Matikan pengesahan dua faktor?",
+
+  "recovery.title": "Pilih kata laluan baharu",
+  "recovery.description": "Anda akan kekal log masuk selepas ia disimpan.",
+  "recovery.newPassword": "Kata laluan baharu",
+  "recovery.confirmPassword": "Sahkan kata laluan",
+  "recovery.tooShort": "Gunakan sekurang-kurangnya {count} aksara.",
+  "recovery.mismatch": "Kata laluan tidak sepadan.",
+  "recovery.save": "Simpan kata laluan",
+
+  "expected.title": "Dijangka tetapi belum daftar masuk",
+  "expected.description":
+    "Dijadualkan untuk hari ini mengikut senarai pelajar.",
+  "expected.empty": "Semua yang dijangka telah hadir.",
+  "expected.flagged": "{count} rekod tidak sepadan dengan senarai.",
+
+  "comparison.title": "Perbandingan Pusat",
+  "comparison.today": "Hari ini",
+  "comparison.todayDescription": "Lawatan hari ini di setiap pusat.",
+  "comparison.rangeDescription":
+    "Lawatan di setiap pusat. Tarikh setiap pusat mengikut zon waktunya sendiri.",
+  "comparison.dates": "Tarikh",
+
+  "closeDay.title": "Tutup {date}",
+  "closeDay.description":
+    "{count} rekod akan dipindahkan ke Sejarah dan Hari Ini akan bermula kosong.",
+  "closeDay.open": "Masih daftar masuk ({count})",
+  "closeDay.noneOpen": "Semua orang telah pulang.",
+  "closeDay.openWarning": "Rekod ini akan diarkibkan tanpa masa daftar keluar.",
+  "closeDay.failed": "Ibu bapa tidak dimaklumkan ({count})",
+  "closeDay.noneFailed": "Setiap ibu bapa telah dimaklumkan atau dihubungi.",
+  "closeDay.notSent": "Tidak dihantar",
+  "closeDay.failedHint":
+    "Tandakan mereka sebagai dihubungi dalam Pemberitahuan dahulu jika anda telah menghubungi mereka dengan cara lain.",
+  "closeDay.confirm": "Saya telah menyemak senarai di atas.",
+  "closeDay.closing": "Sedang menutup...",
+
+  "reopen.title": "Buka semula atau gabung {date}",
+  "reopen.description":
+    "Batalkan hari yang ditutup terlalu awal atau di bawah tarikh yang salah.",
+  "reopen.reopenOption":
+    "Buka semula: pindahkan rekodnya kembali ke hari semasa.",
+  "reopen.currentWarning":
+    "Rekod ini akan berada bersama {count} rekod yang sedia ada.",
+  "reopen.mergeOption": "Gabung: pindahkan rekodnya ke tarikh arkib lain.",
+  "reopen.mergeInto": "Gabung ke dalam",
+  "reopen.confirm": "{date} akan dibuang daripada Sejarah.",
+  "reopen.reopen": "Buka semula",
+  "reopen.merge": "Gabung",
+
+  "dayActivity.entry": "{action} {date} oleh {actor}, {time}",
+
+  "audit.title": "Log Audit",
+  "audit.description":
+    "Siapa yang mengubah, mengeksport atau log masuk, dengan nilai sebelum dan selepas.",
+  "audit.exportCsv": "Eksport CSV",
+  "audit.userPlaceholder": "E-mel pengguna...",
+  "audit.allStudents": "Semua pelajar",
+  "audit.allActions": "Semua tindakan",
+  "audit.time": "Masa",
+  "audit.user": "Pengguna",
+  "audit.action": "Tindakan",
+  "audit.change": "Perubahan",
+  "audit.field": "Medan",
+  "audit.before": "Sebelum",
+  "audit.after": "Selepas",
+  "audit.empty": "Tiada peristiwa yang sepadan dengan penapis ini.",
+
+  "auditAction.recordUpdate": "Rekod disunting",
+  "auditAction.recordScan": "Imbasan stesen",
+  "auditAction.notificationUpdate": "Susulan pemberitahuan",
+  "auditAction.dateArchive": "Hari ditutup",
+  "auditAction.dateReopen": "Tarikh dibuka semula",
+  "auditAction.dateMerge": "Tarikh digabungkan",
+  "auditAction.accountRole": "Peranan diubah",
+  "auditAction.studentCreate": "Pelajar ditambah",
+  "auditAction.studentUpdate": "Pelajar disunting",
+  "auditAction.studentDelete": "Pelajar dibuang",
+  "auditAction.digestSettings": "Tetapan ringkasan",
+  "auditAction.digestSend": "Ringkasan dihantar",
+  "auditAction.kioskCreate": "Kiosk dipasangkan",
+  "auditAction.kioskRevoke": "Kiosk dibatalkan",
+  "auditAction.export": "Eksport",
+  "auditAction.signIn": "Log masuk",
+  "auditAction.signOut": "Log keluar",
+
+  "kioskDevices.title": "Paparan Lobi",
+  "kioskDevices.description":
+    "Skrin baca sahaja \"siapa di sini sekarang\". Setiap paparan mendapat token sendiri yang hanya boleh melihat nama dan masa daftar masuk pelajar yang ada sekarang.",
+  "kioskDevices.name": "Nama paparan",
+  "kioskDevices.namePlaceholder": "Nama paparan, cth. Lobi depan",
+  "kioskDevices.add": "Tambah paparan",
+  "kioskDevices.pairingLink":
+    "Buka pautan ini pada paparan. Ia tidak akan ditunjukkan lagi.",
+  "kioskDevices.copy": "Salin",
+  "kioskDevices.lastSeen": "Kali terakhir dilihat {time}",
+  "kioskDevices.notSeen": "Belum dilihat",
+  "kioskDevices.unpair": "Nyahpasang",
+  "kioskDevices.confirmUnpair":
+    "Nyahpasang {label}? Ia akan berhenti dikemas kini.",
+  "kioskDevices.empty": "Tiada paparan dipasangkan.",
+
+  "station.description":
+    "Imbas kad QR pelajar untuk daftar masuk, atau daftar keluar jika mereka sudah ada.",
+  "station.useCamera": "Guna kamera",
+  "station.stopCamera": "Hentikan kamera",
+  "station.code": "Kod pelajar",
+  "station.codePlaceholder": "Imbas atau taip ID pelajar, kemudian tekan Enter",
+  "station.cameraOff": "Kamera dimatikan",
+  "station.cameraUnsupported":
+    "Pelayar ini tidak dapat membaca kod QR; gunakan pengimbas USB.",
+  "station.cameraStarting": "Memulakan kamera...",
+  "station.cameraScanning": "Mengimbas",
+  "station.cameraError": "Kamera tidak tersedia",
+  "station.unreadable": "Kod tidak dapat dibaca",
+  "station.unknownStudent": "Pelajar tidak dikenali",
+  "station.notOnRoster": "Tiada pelajar dengan ID {id} dalam senarai.",
+  "station.student": "Pelajar {id}",
+  "station.alreadyScanned": "Sudah diimbas sebentar tadi.",
+  "station.savedOffline":
+    "Disimpan di luar talian; ia akan disegerakkan apabila kembali dalam talian.",
+  "station.recentTitle": "Imbasan Terkini",
+  "station.recentDescription":
+    "Imbasan berulang dalam beberapa saat diabaikan.",
+  "station.noScans": "Belum ada imbasan.",
+
+  "analytics.saveImage": "Simpan imej",
+  "analytics.basedOn":
+    "Berdasarkan {records} rekod arkib merentasi {days} hari.",
+  "analytics.weeklyTitle": "Kehadiran Mingguan",
+  "analytics.weeklyDescription": "Lawatan dan pelajar berbeza setiap minggu.",
+  "analytics.heatmapTitle": "Peta Haba Daftar Masuk",
+  "analytics.heatmapDescription":
+    "Daftar masuk mengikut hari dan jam (waktu pusat).",
+  "analytics.hour": "Jam",
+  "analytics.day": "Hari",
+  "analytics.checkIns": "Daftar masuk",
+  "analytics.deliveryTitle": "Penghantaran Pemberitahuan",
+  "analytics.deliveryDescription":
+    "Bahagian lawatan setiap minggu mengikut hasil pemberitahuan.",
+  "analytics.delivered": "Dihantar",
+  "analytics.notDelivered": "Tidak dihantar",
+  "analytics.churnTitle": "Risiko Berhenti",
+  "analytics.churnDescription":
+    "Pelajar yang datang separuh kali atau kurang dalam {weeks} minggu terakhir berbanding {weeks} minggu sebelumnya.",
+  "analytics.before": "Sebelum",
+  "analytics.recent": "Terkini",
+  "analytics.lastVisit": "Lawatan terakhir",
+  "analytics.noChurn": "Tiada pelajar dengan lawatan yang menurun.",
+
+  "pdf.title": "Laporan Kehadiran",
+  "pdf.today": "Hari ini",
+  "pdf.visits": "Lawatan: {count}",
+  "pdf.students": "Pelajar: {count}",
+  "pdf.hours": "Jam: {hours}",
+  "pdf.notified": "Ibu bapa dimaklumkan: {percent}%",
+
+  "digestMail.title": "Ringkasan kehadiran",
+  "digestMail.subject": "Ringkasan kehadiran untuk {date}",
+  "digestMail.timeSpent": "Masa dihabiskan (minit)",
+  "digestMail.stillIn": "Masih didaftar masuk ({count})",
+  "digestMail.allOut": "Semua orang telah daftar keluar.",
+  "digestMail.failures": "Kegagalan pemberitahuan ({count})",
+  "digestMail.allNotified": "Semua ibu bapa telah dimaklumkan.",
+  "digestMail.reason": "Sebab",
+  "digestMail.notSent": "Tidak dihantar",
+
+  "chartImage.noChart": "Belum ada carta untuk dieksport.",
+  "chartImage.noCanvas": "Kanvas tidak tersedia.",
+  "chartImage.failed": "Tidak dapat mencipta imej.",
+};
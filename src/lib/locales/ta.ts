@@ -0,0 +1,473 @@
+import type { Messages } from "@/lib/i18n";
+
+export const ta: Messages = {
+  "app.title": "வருகைப் பலகை",
+  "app.subtitle":
+    "இன்றைய வருகைப் பதிவுகளையும் தேதிவாரியான வருகை வரலாற்றையும் காணுங்கள்.",
+  "app.language": "மொழி",
+  "app.centre": "மையம்",
+  "app.security": "பாதுகாப்பு",
+  "app.signOut": "வெளியேறு",
+
+  "signIn.title": "Kumon வருகைப் பலகை",
+  "signIn.passwordDescription": "வருகைத் தரவைக் காண உள்நுழையவும்.",
+  "signIn.magicLinkDescription":
+    "ஒருமுறை உள்நுழைவு இணைப்பை உங்களுக்கு மின்னஞ்சல் செய்வோம்.",
+  "signIn.resetDescription":
+    "புதிய கடவுச்சொல்லைத் தேர்வுசெய்ய ஓர் இணைப்பை மின்னஞ்சல் செய்வோம்.",
+  "signIn.email": "மின்னஞ்சல்",
+  "signIn.password": "கடவுச்சொல்",
+  "signIn.submit": "உள்நுழை",
+  "signIn.submitting": "உள்நுழைகிறது...",
+  "signIn.sending": "அனுப்புகிறது...",
+  "signIn.sendReset": "மீட்டமைப்பு இணைப்பை அனுப்பு",
+  "signIn.sendMagicLink": "உள்நுழைவு இணைப்பை அனுப்பு",
+  "signIn.forgotPassword": "கடவுச்சொல் மறந்துவிட்டதா?",
+  "signIn.useMagicLink": "உள்நுழைவு இணைப்பை மின்னஞ்சல் செய்",
+  "signIn.backToPassword": "கடவுச்சொல் உள்நுழைவுக்குத் திரும்பு",
+  "signIn.magicLinkSent": "உள்நுழைவு இணைப்புக்கு {email} ஐப் பார்க்கவும்.",
+  "signIn.resetSent":
+    "{email} க்குக் கணக்கு இருந்தால், மீட்டமைப்பு இணைப்பு அனுப்பப்படுகிறது.",
+
+  "session.expired": "உங்கள் அமர்வு காலாவதியானது. மீண்டும் உள்நுழையவும்.",
+  "session.idleSignedOut":
+    "நீண்ட நேரம் செயலற்று இருந்ததால் நீங்கள் வெளியேற்றப்பட்டீர்கள்.",
+  "session.idleWarning":
+    "செயலற்ற நிலையால் {seconds} வினாடிகளில் வெளியேற்றப்படுவீர்கள்.",
+  "session.stay": "உள்நுழைந்தே இரு",
+
+  "realtime.connecting": "இணைக்கிறது...",
+  "realtime.live": "நேரலை",
+  "realtime.polling": "வாக்கெடுப்பு (நேரலை இணைப்பு இல்லை)",
+
+  "offline.serverUnreachable": "சேவையகத்தை அணுக முடியவில்லை.",
+  "offline.offline": "நீங்கள் இணைப்பில் இல்லை.",
+  "offline.showingSaved": "{time} இல் சேமித்த தரவு காட்டப்படுகிறது.",
+  "offline.rejected":
+    "{count} இணைப்பற்ற மாற்றங்களைச் சேவையகம் நிராகரித்தது.",
+  "offline.pendingSignOut":
+    "{count} இணைப்பற்ற மாற்றங்கள் இன்னும் ஒத்திசைக்கப்படவில்லை. அவை இந்தச் சாதனத்திலேயே இருந்து, நீங்கள் அடுத்த முறை இங்கு உள்நுழையும்போது ஒத்திசைக்கப்படும். இருப்பினும் வெளியேறவா?",
+
+  "tabs.current": "இன்று",
+  "tabs.history": "வரலாறு",
+  "tabs.notifications": "அறிவிப்புகள்",
+  "tabs.students": "மாணவர்கள்",
+  "tabs.accounts": "கணக்குகள்",
+  "tabs.centres": "மையங்கள்",
+  "tabs.analytics": "பகுப்பாய்வு",
+  "tabs.audit": "தணிக்கை",
+  "tabs.station": "வருகைப் பதிவு நிலையம்",
+
+  "current.title": "இன்றைய பதிவுகள்",
+  "current.description": "students_checkin இலிருந்து சமீபத்திய வருகைகள்.",
+  "current.empty": "இன்றைய பதிவுகள் இல்லை.",
+
+  "action.export": "ஏற்றுமதி",
+  "action.closeDay": "நாளை முடி",
+  "action.reopenDate": "மீண்டும் திற / இணை",
+  "action.checkIn": "வருகை பதிவு",
+  "action.checkOut": "வெளியேற்றப் பதிவு",
+  "action.edit": "திருத்து",
+
+  "chart.statusTitle": "நிலை மேலோட்டம்",
+  "chart.statusDescription": "வருகை/வெளியேற்றம் மற்றும் அறிவிக்கப்பட்டவை.",
+  "chart.dailyDescription": "நாள்தோறும் வருகை மற்றும் அறிவிப்பு விகிதம் (%).",
+  "chart.timeSpentTitle": "செலவழித்த நேரம் (நிமிடங்கள்)",
+  "chart.timeSpentDescription": "நாள்தோறும் சராசரி நிமிடங்கள்.",
+  "chart.count": "எண்ணிக்கை",
+  "chart.checkedIn": "வருகை பதிந்தது",
+  "chart.checkedOut": "வெளியேறியது",
+  "chart.notified": "அறிவிக்கப்பட்டது",
+  "chart.notifiedRate": "அறிவிப்பு %",
+  "chart.averageMinutes": "சராசரி நிமிடம்",
+
+  "history.datesTitle": "காப்பகத் தேதிகள்",
+  "history.datesDescription": "காண ஒரு தேதி அல்லது வரம்பைத் தேர்வுசெய்யவும்.",
+  "history.thisWeek": "இந்த வாரம்",
+  "history.last30Days": "கடந்த 30 நாட்கள்",
+  "history.from": "முதல்",
+  "history.to": "வரை",
+  "history.noDates": "காப்பகப்படுத்திய நாட்கள் இன்னும் இல்லை.",
+  "history.recordsTitle": "காப்பகப் பதிவுகள்",
+  "history.selectDate": "பதிவுகளைக் காண ஒரு தேதியைத் தேர்வுசெய்யவும்.",
+  "history.recordCount": "{count} பதிவுகள்",
+  "history.filteredCount": "{total} பதிவுகளில் {shown}",
+  "history.countForRange": "{range}: {count}.",
+  "history.emptyRange": "இந்த வரம்பில் பதிவுகள் இல்லை.",
+  "history.activity": "சமீபத்திய நாள் மாற்றங்கள்",
+
+  "column.date": "தேதி",
+  "column.studentId": "மாணவர் எண்",
+  "column.student": "மாணவர்",
+  "column.status": "நிலை",
+  "column.notified": "அறிவிப்பு",
+  "column.failedReason": "தோல்விக் காரணம்",
+  "column.timeSpent": "செலவழித்த நேரம்",
+  "column.minutes": "நிமிடங்கள்",
+  "column.checkIn": "வருகை",
+  "column.checkOut": "வெளியேற்றம்",
+  "column.actions": "செயல்கள்",
+  "column.visits": "வருகைகள்",
+  "column.hours": "மணிநேரம்",
+
+  "duration.unreadable": "{raw} (படிக்க முடியவில்லை)",
+
+  "roster.notOnRoster": "பட்டியலில் இல்லை",
+  "roster.rosterName": "பட்டியல்: {name}",
+
+  "table.columns": "நெடுவரிசைகள்",
+  "table.previousPage": "முந்தைய பக்கம்",
+  "table.nextPage": "அடுத்த பக்கம்",
+  "table.range": "{total} இல் {from}-{to}",
+  "table.page": "பக்கம் {page} / {count}",
+
+  "filter.search": "மாணவரைத் தேடு...",
+  "filter.allStatus": "அனைத்து நிலைகளும்",
+  "filter.checkedIn": "வருகை பதிந்தது",
+  "filter.checkedOut": "வெளியேறியது",
+  "filter.allNotifications": "அனைத்து அறிவிப்புகளும்",
+  "filter.notified": "அறிவிக்கப்பட்டது",
+  "filter.notNotified": "அறிவிக்கப்படவில்லை",
+  "filter.failedReason": "தோல்விக் காரணம்",
+  "filter.allFailureReasons": "அனைத்துத் தோல்விக் காரணங்களும்",
+  "filter.noFailure": "தோல்வி இல்லை",
+  "filter.minMinutesPlaceholder": "குறைந்த நிமி.",
+  "filter.minMinutes": "குறைந்தபட்ச நிமிடங்கள்",
+  "filter.maxMinutesPlaceholder": "அதிக நிமி.",
+  "filter.maxMinutes": "அதிகபட்ச நிமிடங்கள்",
+  "filter.checkedInFrom": "வருகை நேரம் முதல்",
+  "filter.checkedInUntil": "வருகை நேரம் வரை",
+  "filter.clear": "வடிகட்டிகளை அழி",
+
+  "kiosk.title": "இப்போது இங்கே",
+  "kiosk.empty": "இப்போது யாரும் வருகை பதியவில்லை.",
+  "kiosk.elapsed": "{duration} ஆக உள்ளார்",
+  "kiosk.updated": "{time} இல் புதுப்பிக்கப்பட்டது",
+  "kiosk.stale": "புதுப்பிக்க முடியவில்லை: {error}",
+  "kiosk.pairTitle": "இந்தத் திரையை இணை",
+  "kiosk.pairDescription": "பலகையிலிருந்து இணைப்புச் சுட்டியைத் திறக்கவும் அல்லது சாதன டோக்கனை ஒட்டவும்.",
+  "kiosk.token": "சாதன டோக்கன்",
+  "kiosk.pair": "திரையை இணை",
+  "kiosk.revoked": "இந்தத் திரை இணைப்பு நீக்கப்பட்டது. மைய உரிமையாளரிடம் புதிய இணைப்பைக் கேளுங்கள்.",
+
+  "alerts.title": "எச்சரிக்கைகள்",
+  "alerts.description":
+    "திறந்த வருகைப் பதிவுகள், வழக்கத்துக்கு மாறான அமர்வுகள் மற்றும் நகல்கள்.",
+  "alerts.closingTime": "மூடும் நேரம்",
+  "alerts.enableNotifications": "அறிவிப்புகளை இயக்கு",
+  "alerts.empty": "தற்போது எச்சரிக்கைகள் இல்லை.",
+  "alerts.acknowledge": "ஏற்றுக்கொள்",
+  "alerts.kindOpenAfterClosing": "வெளியேறவில்லை",
+  "alerts.kindLongSession": "நீண்ட அமர்வு",
+  "alerts.kindShortSession": "குறுகிய அமர்வு",
+  "alerts.kindDuplicate": "நகல் வருகைப் பதிவு",
+  "alerts.openAfterClosing": "மூடும் நேரத்துக்குப் ({time}) பிறகும் வெளியேறவில்லை.",
+  "alerts.hereFor": "{duration} ஆக இங்கே உள்ளார், வழக்கமாக {usual}.",
+  "alerts.stayed": "{duration} இருந்தார், வழக்கமாக {usual}.",
+  "alerts.duplicate": "இன்று {count} முறை வருகை பதிவு செய்தார்.",
+  "alerts.notificationTitle": "வருகை எச்சரிக்கை: {name}",
+
+  "common.save": "சேமி",
+  "common.saving": "சேமிக்கிறது...",
+  "common.cancel": "ரத்துசெய்",
+  "common.close": "மூடு",
+  "common.delete": "நீக்கு",
+  "common.undo": "செயல்தவிர்",
+  "common.dismiss": "நிராகரி",
+  "range.between": "{from} முதல் {to} வரை",
+
+  "role.owner": "உரிமையாளர்",
+  "role.instructor": "பயிற்றுநர்",
+  "role.frontDesk": "வரவேற்பு மேசை",
+
+  "students.description":
+    "மாணவர் பட்டியலும் ஒவ்வொரு மாணவரும் எதிர்பார்க்கப்படும் நாட்களும்.",
+  "students.add": "மாணவரைச் சேர்",
+  "students.addTitle": "மாணவரைச் சேர்",
+  "students.editTitle": "மாணவரைத் திருத்து",
+  "students.editorDescription":
+    "திட்டமிட்ட நாட்களைக் கொண்டே எதிர்பார்க்கப்படும் வருகைப் பட்டியல் அமைகிறது.",
+  "students.name": "பெயர்",
+  "students.nameRequired": "பெயர் தேவை.",
+  "students.scheduledDays": "திட்டமிட்ட நாட்கள்",
+  "students.empty": "பட்டியலில் மாணவர்கள் இல்லை.",
+  "students.confirmRemove": "{name} ஐப் பட்டியலிலிருந்து நீக்கவா?",
+
+  "timeSpent.buckets": "பிரிவுகள்",
+  "timeSpent.boxPlot": "பெட்டி வரைபடம்",
+  "timeSpent.cumulative": "திரள்",
+  "timeSpent.percentiles": "சதமானங்கள்",
+  "timeSpent.median": "இடைநிலை",
+  "timeSpent.summary": "{count} வருகைகளின் {view}.",
+  "timeSpent.unreadable": "படிக்க முடியாத {count} மதிப்புகள் காட்டப்படவில்லை.",
+  "timeSpent.boxTooltip":
+    "இடைநிலை {median}, IQR {q1}-{q3}, வரம்பு {min}-{max}, {count} வருகைகள்",
+  "timeSpent.shareOfVisits": "வருகைகளின் %",
+  "timeSpent.editBuckets": "பிரிவுகளைத் திருத்து",
+  "timeSpent.upperBounds": "மேல் வரம்புகள் (நிமி.)",
+
+  "corrections.checkedIn": "{name} வருகை பதிவு செய்யப்பட்டது",
+  "corrections.checkedOut": "{name} வெளியேற்றப் பதிவு செய்யப்பட்டது",
+  "corrections.updatedTimes": "{name} இன் நேரங்கள் புதுப்பிக்கப்பட்டன",
+  "corrections.undid": "செயல்தவிர்க்கப்பட்டது: {label}",
+
+  "profile.description": "காப்பகப்படுத்தப்பட்ட {count} நாட்களின் வருகை.",
+  "profile.thisMonth": "இந்த மாதம்",
+  "profile.visits": "{count} வருகைகள்",
+  "profile.attendanceRate": "வருகை விகிதம்",
+  "profile.averageTime": "சராசரி நேரம்",
+  "profile.steady": "நிலையானது",
+  "profile.trendUp": "ஒவ்வொரு வருகைக்கும் {minutes} நிமி. அதிகரிப்பு",
+  "profile.trendDown": "ஒவ்வொரு வருகைக்கும் {minutes} நிமி. குறைவு",
+  "profile.parentNotified": "பெற்றோருக்கு அறிவிக்கப்பட்டது",
+  "profile.calendar": "வருகை நாட்காட்டி",
+  "profile.attended": "வந்தார்",
+  "profile.absent": "வரவில்லை",
+  "profile.noSession": "அமர்வு இல்லை",
+  "profile.timePerVisit": "ஒவ்வொரு வருகையிலும் செலவழித்த நேரம்",
+  "profile.noVisits": "வருகைகள் எதுவும் பதிவாகவில்லை.",
+  "profile.notificationFailures": "அறிவிப்புத் தோல்விகள்",
+  "profile.noFailures": "தோல்விகள் இல்லை.",
+
+  "triage.title": "அறிவிப்பு பின்தொடர்தல்",
+  "triage.description": "அறிவிக்கப்படாத பெற்றோர், தோல்விக் காரணத்தின்படி தொகுக்கப்பட்டது.",
+  "triage.empty": "ஏற்றப்பட்ட அனைத்துப் பதிவுகளும் அனுப்பப்பட்டன.",
+  "triage.noReason": "காரணம் குறிப்பிடப்படவில்லை",
+  "triage.resend": "மீண்டும் அனுப்பு",
+  "triage.contactedManually": "நேரடியாகத் தொடர்பு கொள்ளப்பட்டது",
+  "triage.resent": "மீண்டும் அனுப்பப்பட்டது",
+  "triage.markedContacted": "தொடர்பு கொள்ளப்பட்டதாகக் குறிக்கப்பட்டது",
+  "triage.auditLine": "{actor} மூலம் {action}, {time}",
+
+  "export.title": "வருகையை ஏற்றுமதி செய்",
+  "export.description": "நேரங்கள் மையத்தின் உள்ளூர் நேரத்தில் ஏற்றுமதி செய்யப்படும்.",
+  "export.filtersApplied": "செயலில் உள்ள வடிகட்டிகள் பயன்படுத்தப்படும்.",
+  "export.records": "பதிவுகள்",
+  "export.today": "இன்று ({date})",
+  "export.archivedRange": "காப்பக தேதி வரம்பு",
+  "export.thisMonth": "இந்த மாதம்",
+  "export.format": "வடிவம்",
+  "export.formatCsv": "CSV",
+  "export.formatXlsx": "Excel (XLSX)",
+  "export.formatPdf": "PDF அறிக்கை",
+  "export.exporting": "ஏற்றுமதி செய்கிறது...",
+
+  "timeEditor.description": "{date} க்கான நேரங்களைத் திருத்து (மைய நேரம்).",
+  "timeEditor.checkinRequired": "வருகை நேரம் தேவை.",
+  "timeEditor.checkoutBeforeCheckin":
+    "வெளியேறும் நேரம் வருகை நேரத்திற்குப் பிறகு இருக்க வேண்டும்.",
+
+  "accounts.description": "ஒவ்வொரு பணியாளர் கணக்கும் எதை அணுகலாம் என அமைக்கவும்.",
+  "accounts.email": "மின்னஞ்சல்",
+  "accounts.role": "பங்கு",
+  "accounts.empty": "கணக்குகள் இல்லை.",
+
+  "digest.title": "தினசரி சுருக்கம்",
+  "digest.description":
+    "அனுப்பும் நேரத்தில் (மைய நேரம்) சேவையகம் இன்றைய சுருக்கத்தை மின்னஞ்சல் செய்யும்.",
+  "digest.lastSent": "கடைசியாக அனுப்பியது {time}.",
+  "digest.enabled": "தினமும் சுருக்கம் அனுப்பு",
+  "digest.recipients": "பெறுநர்கள்",
+  "digest.recipientsPlaceholder": "ஒரு வரிக்கு ஒரு மின்னஞ்சல்",
+  "digest.sendTime": "அனுப்பும் நேரம்",
+  "digest.delivery": "சோதனை அனுப்பும் முறை",
+  "digest.transportEmail": "மின்னஞ்சல்",
+  "digest.transportFile": "HTML கோப்பைப் பதிவிறக்கு (சோதனை)",
+  "digest.invalidEmail": "{email} சரியான மின்னஞ்சல் முகவரி அல்ல.",
+  "digest.noRecipients": "குறைந்தது ஒரு பெறுநரைச் சேர்க்கவும்.",
+  "digest.saved": "சுருக்க அமைப்புகள் சேமிக்கப்பட்டன.",
+  "digest.preview": "முன்னோட்டம்",
+  "digest.sendTest": "சோதனை அனுப்பு",
+  "digest.testSent": "சோதனைச் சுருக்கம் அனுப்பப்பட்டது.",
+  "digest.to": "பெறுநர்: {recipients}",
+  "digest.noRecipientsYet": "இன்னும் பெறுநர்கள் இல்லை",
+
+  "common.loading": "ஏற்றுகிறது...",
+
+  "mfa.title": "இரு-காரணி அங்கீகாரம்",
+  "mfa.challengeDescription":
+    "உங்கள் அங்கீகரிப்புச் செயலியில் உள்ள 6 இலக்கக் குறியீட்டை உள்ளிடவும்.",
+  "mfa.enabledDescription":
+    "உள்நுழையும்போது உங்கள் அங்கீகரிப்புச் செயலியின் குறியீடு தேவை.",
+  "mfa.offDescription": "உள்நுழையும்போது அங்கீகரிப்புச் செயலியின் குறியீட்டைக் கோரு.",
+  "mfa.code": "அங்கீகாரக் குறியீடு",
+  "mfa.noFactor": "அங்கீகரிப்புச் செயலி எதுவும் அமைக்கப்படவில்லை.",
+  "mfa.verify": "சரிபார்",
+  "mfa.verifying": "சரிபார்க்கிறது...",
+  "mfa.differentAccount": "வேறு கணக்கைப் பயன்படுத்து",
+  "mfa.scan":
+    "உங்கள் அங்கீகரிப்புச் செயலியில் இந்தக் குறியீட்டை ஸ்கேன் செய்து, அது காட்டும் 6 இலக்கக் குறியீட்டை உள்ளிடவும்.",
+  "mfa.qrCode": "அங்கீகரிப்பு QR குறியீடு",
+  "mfa.setUp": "அமை",
+  "mfa.turnOn": "இயக்கு",
+  "mfa.turnOff": "அணை",
+  "mfa.confirmTurnOff": "இரு-காரணி அங்கீகாரத்தை அணைக்கவா?",
+
+  "recovery.title": "புதிய கடவுச்சொல்லைத் தேர்ந்தெடுக்கவும்",
+  "recovery.description": "சேமித்தவுடன் நீங்கள் உள்நுழைந்தே இருப்பீர்கள்.",
+  "recovery.newPassword": "புதிய கடவுச்சொல்",
+  "recovery.confirmPassword": "கடவுச்சொல்லை உறுதிப்படுத்து",
+  "recovery.tooShort": "குறைந்தது {count} எழுத்துகளைப் பயன்படுத்தவும்.",
+  "recovery.mismatch": "கடவுச்சொற்கள் பொருந்தவில்லை.",
+  "recovery.save": "கடவுச்சொல்லைச் சேமி",
+
+  "expected.title": "எதிர்பார்க்கப்பட்டும் வருகை பதியாதவர்கள்",
+  "expected.description": "மாணவர் பட்டியலின்படி இன்றைக்குத் திட்டமிடப்பட்டவர்கள்.",
+  "expected.empty": "எதிர்பார்க்கப்பட்ட அனைவரும் வந்துள்ளனர்.",
+  "expected.flagged": "{count} பதிவு(கள்) பட்டியலுடன் பொருந்தவில்லை.",
+
+  "comparison.title": "மைய ஒப்பீடு",
+  "comparison.today": "இன்று",
+  "comparison.todayDescription": "ஒவ்வொரு மையத்திலும் இன்றைய வருகைகள்.",
+  "comparison.rangeDescription":
+    "ஒவ்வொரு மையத்திலும் வருகைகள். ஒவ்வொரு மையத்தின் தேதிகளும் அதன் சொந்த நேர மண்டலத்தைப் பின்பற்றும்.",
+  "comparison.dates": "தேதிகள்",
+
+  "closeDay.title": "{date} ஐ மூடு",
+  "closeDay.description":
+    "{count} பதிவு(கள்) வரலாற்றுக்கு நகர்த்தப்படும், இன்றைய பட்டியல் காலியாகத் தொடங்கும்.",
+  "closeDay.open": "இன்னும் உள்ளே உள்ளவர்கள் ({count})",
+  "closeDay.noneOpen": "அனைவரும் வெளியேறிவிட்டனர்.",
+  "closeDay.openWarning": "இவை வெளியேறும் நேரம் இல்லாமல் காப்பகப்படுத்தப்படும்.",
+  "closeDay.failed": "அறிவிக்கப்படாத பெற்றோர் ({count})",
+  "closeDay.noneFailed":
+    "அனைத்துப் பெற்றோருக்கும் அறிவிக்கப்பட்டது அல்லது தொடர்பு கொள்ளப்பட்டது.",
+  "closeDay.notSent": "அனுப்பப்படவில்லை",
+  "closeDay.failedHint":
+    "வேறு வழியில் அவர்களைத் தொடர்பு கொண்டிருந்தால், முதலில் அறிவிப்புகளில் தொடர்பு கொள்ளப்பட்டதாகக் குறிக்கவும்.",
+  "closeDay.confirm": "மேலே உள்ள பட்டியலைச் சரிபார்த்தேன்.",
+  "closeDay.closing": "மூடுகிறது...",
+
+  "reopen.title": "{date} ஐ மீண்டும் திற அல்லது இணை",
+  "reopen.description":
+    "முன்கூட்டியே அல்லது தவறான தேதியில் மூடப்பட்ட நாளைத் திரும்பப் பெறு.",
+  "reopen.reopenOption": "மீண்டும் திற: அதன் பதிவுகளை இன்றைய நாளுக்குத் திருப்பு.",
+  "reopen.currentWarning": "அவை ஏற்கெனவே உள்ள {count} பதிவு(கள்) உடன் சேரும்.",
+  "reopen.mergeOption": "இணை: அதன் பதிவுகளை வேறு காப்பகத் தேதிக்கு நகர்த்து.",
+  "reopen.mergeInto": "இதில் இணை",
+  "reopen.confirm": "{date} வரலாற்றிலிருந்து நீக்கப்படும்.",
+  "reopen.reopen": "மீண்டும் திற",
+  "reopen.merge": "இணை",
+
+  "dayActivity.entry": "{actor} மூலம் {date} {action}, {time}",
+
+  "audit.title": "தணிக்கைப் பதிவு",
+  "audit.description":
+    "யார் மாற்றினார், ஏற்றுமதி செய்தார் அல்லது உள்நுழைந்தார், முன் மற்றும் பின் மதிப்புகளுடன்.",
+  "audit.exportCsv": "CSV ஏற்றுமதி",
+  "audit.userPlaceholder": "பயனர் மின்னஞ்சல்...",
+  "audit.allStudents": "அனைத்து மாணவர்கள்",
+  "audit.allActions": "அனைத்துச் செயல்கள்",
+  "audit.time": "நேரம்",
+  "audit.user": "பயனர்",
+  "audit.action": "செயல்",
+  "audit.change": "மாற்றம்",
+  "audit.field": "புலம்",
+  "audit.before": "முன்",
+  "audit.after": "பின்",
+  "audit.empty": "இந்த வடிகட்டிகளுக்குப் பொருந்தும் நிகழ்வுகள் இல்லை.",
+
+  "auditAction.recordUpdate": "பதிவு திருத்தப்பட்டது",
+  "auditAction.recordScan": "நிலைய ஸ்கேன்",
+  "auditAction.notificationUpdate": "அறிவிப்பு பின்தொடர்தல்",
+  "auditAction.dateArchive": "நாள் மூடப்பட்டது",
+  "auditAction.dateReopen": "தேதி மீண்டும் திறக்கப்பட்டது",
+  "auditAction.dateMerge": "தேதி இணைக்கப்பட்டது",
+  "auditAction.accountRole": "பங்கு மாற்றப்பட்டது",
+  "auditAction.studentCreate": "மாணவர் சேர்க்கப்பட்டார்",
+  "auditAction.studentUpdate": "மாணவர் திருத்தப்பட்டார்",
+  "auditAction.studentDelete": "மாணவர் நீக்கப்பட்டார்",
+  "auditAction.digestSettings": "சுருக்க அமைப்புகள்",
+  "auditAction.digestSend": "சுருக்கம் அனுப்பப்பட்டது",
+  "auditAction.kioskCreate": "கியோஸ்க் இணைக்கப்பட்டது",
+  "auditAction.kioskRevoke": "கியோஸ்க் திரும்பப் பெறப்பட்டது",
+  "auditAction.export": "ஏற்றுமதி",
+  "auditAction.signIn": "உள்நுழைவு",
+  "auditAction.signOut": "வெளியேறு",
+
+  "kioskDevices.title": "வரவேற்பறைத் திரைகள்",
+  "kioskDevices.description":
+    "படிக்க மட்டுமான \"இப்போது யார் இங்கே\" திரைகள். ஒவ்வொரு திரைக்கும் தனி டோக்கன் உண்டு; அது இப்போது உள்ள மாணவர்களின் பெயர்களையும் வருகை நேரங்களையும் மட்டுமே பார்க்கும்.",
+  "kioskDevices.name": "திரையின் பெயர்",
+  "kioskDevices.namePlaceholder": "திரையின் பெயர், எ.கா. முன் வரவேற்பறை",
+  "kioskDevices.add": "திரையைச் சேர்",
+  "kioskDevices.pairingLink":
+    "இந்த இணைப்பைத் திரையில் திறக்கவும். இது மீண்டும் காட்டப்படாது.",
+  "kioskDevices.copy": "நகலெடு",
+  "kioskDevices.lastSeen": "கடைசியாகக் காணப்பட்டது {time}",
+  "kioskDevices.notSeen": "இன்னும் காணப்படவில்லை",
+  "kioskDevices.unpair": "இணைப்பை நீக்கு",
+  "kioskDevices.confirmUnpair":
+    "{label} இணைப்பை நீக்கவா? அது புதுப்பிப்பதை நிறுத்தும்.",
+  "kioskDevices.empty": "இணைக்கப்பட்ட திரைகள் இல்லை.",
+
+  "station.description":
+    "மாணவரின் QR அட்டையை ஸ்கேன் செய்து வருகை பதிவு செய்யவும்; ஏற்கெனவே இருந்தால் வெளியேற்றம் பதிவாகும்.",
+  "station.useCamera": "கேமராவைப் பயன்படுத்து",
+  "station.stopCamera": "கேமராவை நிறுத்து",
+  "station.code": "மாணவர் குறியீடு",
+  "station.codePlaceholder":
+    "மாணவர் ID ஐ ஸ்கேன் செய்யவும் அல்லது தட்டச்சு செய்து Enter அழுத்தவும்",
+  "station.cameraOff": "கேமரா அணைக்கப்பட்டுள்ளது",
+  "station.cameraUnsupported":
+    "இந்த உலாவியால் QR குறியீடுகளைப் படிக்க முடியாது; USB ஸ்கேனரைப் பயன்படுத்தவும்.",
+  "station.cameraStarting": "கேமரா தொடங்குகிறது...",
+  "station.cameraScanning": "ஸ்கேன் செய்கிறது",
+  "station.cameraError": "கேமரா கிடைக்கவில்லை",
+  "station.unreadable": "படிக்க முடியாத குறியீடு",
+  "station.unknownStudent": "அறியப்படாத மாணவர்",
+  "station.notOnRoster": "ID {id} கொண்ட மாணவர் பட்டியலில் இல்லை.",
+  "station.student": "மாணவர் {id}",
+  "station.alreadyScanned": "சற்று முன்பே ஸ்கேன் செய்யப்பட்டது.",
+  "station.savedOffline":
+    "ஆஃப்லைனில் சேமிக்கப்பட்டது; இணைப்பு திரும்பியதும் ஒத்திசைக்கப்படும்.",
+  "station.recentTitle": "சமீபத்திய ஸ்கேன்கள்",
+  "station.recentDescription":
+    "சில விநாடிகளுக்குள் மீண்டும் செய்யப்படும் ஸ்கேன்கள் புறக்கணிக்கப்படும்.",
+  "station.noScans": "இன்னும் ஸ்கேன்கள் இல்லை.",
+
+  "analytics.saveImage": "படத்தைச் சேமி",
+  "analytics.basedOn":
+    "{days} நாள்(கள்) முழுவதும் உள்ள {records} காப்பகப் பதிவுகளின் அடிப்படையில்.",
+  "analytics.weeklyTitle": "வாராந்திர வருகை",
+  "analytics.weeklyDescription": "வாரத்திற்கான வருகைகள் மற்றும் தனித்த மாணவர்கள்.",
+  "analytics.heatmapTitle": "வருகை வெப்ப வரைபடம்",
+  "analytics.heatmapDescription":
+    "வார நாள் மற்றும் மணி வாரியாக வருகைகள் (மைய நேரம்).",
+  "analytics.hour": "மணி",
+  "analytics.day": "நாள்",
+  "analytics.checkIns": "வருகைகள்",
+  "analytics.deliveryTitle": "அறிவிப்பு விநியோகம்",
+  "analytics.deliveryDescription":
+    "அறிவிப்பு முடிவின்படி ஒவ்வொரு வாரத்தின் வருகைப் பங்கு.",
+  "analytics.delivered": "அனுப்பப்பட்டது",
+  "analytics.notDelivered": "அனுப்பப்படவில்லை",
+  "analytics.churnTitle": "விலகும் அபாயம்",
+  "analytics.churnDescription":
+    "முந்தைய {weeks} வாரங்களை விட கடந்த {weeks} வாரங்களில் பாதி அல்லது அதற்கும் குறைவாக வந்த மாணவர்கள்.",
+  "analytics.before": "முன்பு",
+  "analytics.recent": "சமீபத்தில்",
+  "analytics.lastVisit": "கடைசி வருகை",
+  "analytics.noChurn": "வருகை குறைந்த மாணவர்கள் இல்லை.",
+
+  "pdf.title": "வருகை அறிக்கை",
+  "pdf.today": "இன்று",
+  "pdf.visits": "வருகைகள்: {count}",
+  "pdf.students": "மாணவர்கள்: {count}",
+  "pdf.hours": "மணிநேரம்: {hours}",
+  "pdf.notified": "பெற்றோருக்கு அறிவிக்கப்பட்டது: {percent}%",
+
+  "digestMail.title": "வருகைச் சுருக்கம்",
+  "digestMail.subject": "{date} வருகைச் சுருக்கம்",
+  "digestMail.timeSpent": "செலவிட்ட நேரம் (நிமி)",
+  "digestMail.stillIn": "இன்னும் உள்ளே ({count})",
+  "digestMail.allOut": "அனைவரும் வெளியேறிவிட்டனர்.",
+  "digestMail.failures": "அறிவிப்புத் தோல்விகள் ({count})",
+  "digestMail.allNotified": "அனைத்துப் பெற்றோருக்கும் அறிவிக்கப்பட்டது.",
+  "digestMail.reason": "காரணம்",
+  "digestMail.notSent": "அனுப்பப்படவில்லை",
+
+  "chartImage.noChart": "ஏற்றுமதி செய்ய இன்னும் விளக்கப்படம் இல்லை.",
+  "chartImage.noCanvas": "கேன்வாஸ் கிடைக்கவில்லை.",
+  "chartImage.failed": "படத்தை உருவாக்க முடியவில்லை.",
+};
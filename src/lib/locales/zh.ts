@@ -0,0 +1,444 @@
+import type { Messages } from "@/lib/i18n";
+
+export const zh: Messages = {
+  "app.title": "考勤仪表板",
+  "app.subtitle": "查看今日签到及按日期的历史考勤。",
+  "app.language": "语言",
+  "app.centre": "中心",
+  "app.security": "安全",
+  "app.signOut": "退出登录",
+
+  "signIn.title": "Kumon 考勤仪表板",
+  "signIn.passwordDescription": "登录以查看考勤数据。",
+  "signIn.magicLinkDescription": "我们会将一次性登录链接发送到您的邮箱。",
+  "signIn.resetDescription": "我们会将重设密码的链接发送到您的邮箱。",
+  "signIn.email": "电子邮件",
+  "signIn.password": "密码",
+  "signIn.submit": "登录",
+  "signIn.submitting": "正在登录...",
+  "signIn.sending": "正在发送...",
+  "signIn.sendReset": "发送重设链接",
+  "signIn.sendMagicLink": "发送登录链接",
+  "signIn.forgotPassword": "忘记密码？",
+  "signIn.useMagicLink": "通过邮件发送登录链接",
+  "signIn.backToPassword": "返回密码登录",
+  "signIn.magicLinkSent": "请查看 {email} 中的登录链接。",
+  "signIn.resetSent": "如果 {email} 已注册，重设链接即将送达。",
+
+  "session.expired": "您的会话已过期，请重新登录。",
+  "session.idleSignedOut": "由于长时间未操作，您已被退出登录。",
+  "session.idleWarning": "由于未操作，将在 {seconds} 秒后退出登录。",
+  "session.stay": "保持登录",
+
+  "realtime.connecting": "正在连接...",
+  "realtime.live": "实时",
+  "realtime.polling": "轮询中（实时连接已断开）",
+
+  "offline.serverUnreachable": "无法连接服务器。",
+  "offline.offline": "您目前处于离线状态。",
+  "offline.showingSaved": "显示保存于 {time} 的数据。",
+  "offline.rejected": "{count} 项离线更改被服务器拒绝。",
+  "offline.pendingSignOut":
+    "有 {count} 项离线更改尚未同步。它们会保留在此设备上，并在您下次于此登录时同步。仍要退出登录吗？",
+
+  "tabs.current": "今日",
+  "tabs.history": "历史",
+  "tabs.notifications": "通知",
+  "tabs.students": "学生",
+  "tabs.accounts": "账户",
+  "tabs.centres": "中心",
+  "tabs.analytics": "分析",
+  "tabs.audit": "审计",
+  "tabs.station": "签到站",
+
+  "current.title": "今日记录",
+  "current.description": "来自 students_checkin 的最新签到。",
+  "current.empty": "暂无今日记录。",
+
+  "action.export": "导出",
+  "action.closeDay": "结束今日",
+  "action.reopenDate": "重新开启 / 合并",
+  "action.checkIn": "签到",
+  "action.checkOut": "签退",
+  "action.edit": "编辑",
+
+  "chart.statusTitle": "状态概览",
+  "chart.statusDescription": "签到、签退及已通知人数。",
+  "chart.dailyDescription": "每日出勤人数及通知率（%）。",
+  "chart.timeSpentTitle": "停留时间（分钟）",
+  "chart.timeSpentDescription": "每日平均分钟数。",
+  "chart.count": "人数",
+  "chart.checkedIn": "已签到",
+  "chart.checkedOut": "已签退",
+  "chart.notified": "已通知",
+  "chart.notifiedRate": "通知率 %",
+  "chart.averageMinutes": "平均分钟",
+
+  "history.datesTitle": "存档日期",
+  "history.datesDescription": "选择要查看的日期或日期范围。",
+  "history.thisWeek": "本周",
+  "history.last30Days": "最近 30 天",
+  "history.from": "开始",
+  "history.to": "结束",
+  "history.noDates": "暂无存档日期。",
+  "history.recordsTitle": "存档记录",
+  "history.selectDate": "选择日期以查看记录。",
+  "history.recordCount": "{count} 条记录",
+  "history.filteredCount": "{total} 条记录中的 {shown} 条",
+  "history.countForRange": "{range}：{count}。",
+  "history.emptyRange": "此范围内没有记录。",
+  "history.activity": "最近的日期变更",
+
+  "column.date": "日期",
+  "column.studentId": "学生编号",
+  "column.student": "学生",
+  "column.status": "状态",
+  "column.notified": "通知",
+  "column.failedReason": "失败原因",
+  "column.timeSpent": "停留时间",
+  "column.minutes": "分钟",
+  "column.checkIn": "签到时间",
+  "column.checkOut": "签退时间",
+  "column.actions": "操作",
+  "column.visits": "到访次数",
+  "column.hours": "小时",
+
+  "duration.unreadable": "{raw}（无法读取）",
+
+  "roster.notOnRoster": "不在名单中",
+  "roster.rosterName": "名单：{name}",
+
+  "table.columns": "列",
+  "table.previousPage": "上一页",
+  "table.nextPage": "下一页",
+  "table.range": "第 {from}-{to} 条，共 {total} 条",
+  "table.page": "第 {page} 页，共 {count} 页",
+
+  "filter.search": "搜索学生...",
+  "filter.allStatus": "全部状态",
+  "filter.checkedIn": "已签到",
+  "filter.checkedOut": "已签退",
+  "filter.allNotifications": "全部通知",
+  "filter.notified": "已通知",
+  "filter.notNotified": "未通知",
+  "filter.failedReason": "失败原因",
+  "filter.allFailureReasons": "全部失败原因",
+  "filter.noFailure": "无失败",
+  "filter.minMinutesPlaceholder": "最少分钟",
+  "filter.minMinutes": "最少分钟数",
+  "filter.maxMinutesPlaceholder": "最多分钟",
+  "filter.maxMinutes": "最多分钟数",
+  "filter.checkedInFrom": "签到时间自",
+  "filter.checkedInUntil": "签到时间至",
+  "filter.clear": "清除筛选",
+
+  "kiosk.title": "当前在场",
+  "kiosk.empty": "目前没有学生签到。",
+  "kiosk.elapsed": "已到 {duration}",
+  "kiosk.updated": "更新于 {time}",
+  "kiosk.stale": "无法刷新：{error}",
+  "kiosk.pairTitle": "配对此显示屏",
+  "kiosk.pairDescription": "打开仪表板中的配对链接，或粘贴其设备令牌。",
+  "kiosk.token": "设备令牌",
+  "kiosk.pair": "配对显示屏",
+  "kiosk.revoked": "此显示屏已解除配对，请向中心负责人索取新链接。",
+
+  "alerts.title": "提醒",
+  "alerts.description": "未签退、异常时长及重复签到。",
+  "alerts.closingTime": "关门时间",
+  "alerts.enableNotifications": "启用通知",
+  "alerts.empty": "目前没有提醒。",
+  "alerts.acknowledge": "确认",
+  "alerts.kindOpenAfterClosing": "未签退",
+  "alerts.kindLongSession": "时长过长",
+  "alerts.kindShortSession": "时长过短",
+  "alerts.kindDuplicate": "重复签到",
+  "alerts.openAfterClosing": "关门时间（{time}）后仍未签退。",
+  "alerts.hereFor": "已在场 {duration}，通常为 {usual}。",
+  "alerts.stayed": "停留了 {duration}，通常为 {usual}。",
+  "alerts.duplicate": "今天签到了 {count} 次。",
+  "alerts.notificationTitle": "考勤提醒：{name}",
+
+  "common.save": "保存",
+  "common.saving": "正在保存...",
+  "common.cancel": "取消",
+  "common.close": "关闭",
+  "common.delete": "删除",
+  "common.undo": "撤销",
+  "common.dismiss": "关闭提示",
+  "range.between": "{from} 至 {to}",
+
+  "role.owner": "负责人",
+  "role.instructor": "辅导老师",
+  "role.frontDesk": "前台",
+
+  "students.description": "学生名单及每位学生的预定到访日。",
+  "students.add": "添加学生",
+  "students.addTitle": "添加学生",
+  "students.editTitle": "编辑学生",
+  "students.editorDescription": "预定到访日决定预期到访名单。",
+  "students.name": "姓名",
+  "students.nameRequired": "请填写姓名。",
+  "students.scheduledDays": "预定到访日",
+  "students.empty": "名单中没有学生。",
+  "students.confirmRemove": "要从名单中移除 {name} 吗？",
+
+  "timeSpent.buckets": "分段",
+  "timeSpent.boxPlot": "箱线图",
+  "timeSpent.cumulative": "累计",
+  "timeSpent.percentiles": "百分位",
+  "timeSpent.median": "中位数",
+  "timeSpent.summary": "{count} 次到访的{view}。",
+  "timeSpent.unreadable": "{count} 个无法读取的值未显示。",
+  "timeSpent.boxTooltip":
+    "中位数 {median}，四分位距 {q1}-{q3}，范围 {min}-{max}，{count} 次到访",
+  "timeSpent.shareOfVisits": "到访占比 %",
+  "timeSpent.editBuckets": "编辑分段",
+  "timeSpent.upperBounds": "上限（分钟）",
+
+  "corrections.checkedIn": "已为 {name} 签到",
+  "corrections.checkedOut": "已为 {name} 签退",
+  "corrections.updatedTimes": "已更新 {name} 的时间",
+  "corrections.undid": "已撤销：{label}",
+
+  "profile.description": "共 {count} 个已归档日的出勤情况。",
+  "profile.thisMonth": "本月",
+  "profile.visits": "{count} 次到访",
+  "profile.attendanceRate": "出勤率",
+  "profile.averageTime": "平均时长",
+  "profile.steady": "平稳",
+  "profile.trendUp": "每次到访增加 {minutes} 分钟",
+  "profile.trendDown": "每次到访减少 {minutes} 分钟",
+  "profile.parentNotified": "已通知家长",
+  "profile.calendar": "出勤日历",
+  "profile.attended": "已出勤",
+  "profile.absent": "缺席",
+  "profile.noSession": "无课程",
+  "profile.timePerVisit": "每次到访停留时间",
+  "profile.noVisits": "没有到访记录。",
+  "profile.notificationFailures": "通知失败",
+  "profile.noFailures": "没有失败。",
+
+  "triage.title": "通知跟进",
+  "triage.description": "未收到通知的家长，按失败原因分组。",
+  "triage.empty": "所有已加载的记录均已送达。",
+  "triage.noReason": "未提供原因",
+  "triage.resend": "重新发送",
+  "triage.contactedManually": "已人工联系",
+  "triage.resent": "已重新发送",
+  "triage.markedContacted": "已标记为已联系",
+  "triage.auditLine": "{actor} {action}，{time}",
+
+  "export.title": "导出考勤",
+  "export.description": "时间按中心的当地时间导出。",
+  "export.filtersApplied": "已应用当前筛选条件。",
+  "export.records": "记录",
+  "export.today": "今天（{date}）",
+  "export.archivedRange": "存档日期范围",
+  "export.thisMonth": "本月",
+  "export.format": "格式",
+  "export.formatCsv": "CSV",
+  "export.formatXlsx": "Excel（XLSX）",
+  "export.formatPdf": "PDF 报告",
+  "export.exporting": "正在导出...",
+
+  "timeEditor.description": "更正 {date} 的时间（中心时间）。",
+  "timeEditor.checkinRequired": "必须填写签到时间。",
+  "timeEditor.checkoutBeforeCheckin": "签退时间必须晚于签到时间。",
+
+  "accounts.description": "设置每个员工账户可访问的内容。",
+  "accounts.email": "电子邮件",
+  "accounts.role": "角色",
+  "accounts.empty": "没有账户。",
+
+  "digest.title": "每日摘要",
+  "digest.description":
+    "服务器会在发送时间（中心时间）通过电子邮件发送今日摘要。",
+  "digest.lastSent": "上次发送：{time}。",
+  "digest.enabled": "每天发送摘要",
+  "digest.recipients": "收件人",
+  "digest.recipientsPlaceholder": "每行一个电子邮件地址",
+  "digest.sendTime": "发送时间",
+  "digest.delivery": "测试发送方式",
+  "digest.transportEmail": "电子邮件",
+  "digest.transportFile": "下载 HTML 文件（测试）",
+  "digest.invalidEmail": "{email} 不是有效的电子邮件地址。",
+  "digest.noRecipients": "请至少添加一个收件人。",
+  "digest.saved": "摘要设置已保存。",
+  "digest.preview": "预览",
+  "digest.sendTest": "发送测试",
+  "digest.testSent": "测试摘要已发送。",
+  "digest.to": "收件人：{recipients}",
+  "digest.noRecipientsYet": "尚无收件人",
+
+  "common.loading": "正在加载...",
+
+  "mfa.title": "双重身份验证",
+  "mfa.challengeDescription": "请输入身份验证器应用中的 6 位验证码。",
+  "mfa.enabledDescription": "登录时需要身份验证器应用中的验证码。",
+  "mfa.offDescription": "登录时要求提供身份验证器应用中的验证码。",
+  "mfa.code": "验证码",
+  "mfa.noFactor": "尚未设置身份验证器应用。",
+  "mfa.verify": "验证",
+  "mfa.verifying": "正在验证...",
+  "mfa.differentAccount": "使用其他账户",
+  "mfa.scan": "请用身份验证器应用扫描此二维码，然后输入其显示的 6 位验证码。",
+  "mfa.qrCode": "身份验证器二维码",
+  "mfa.setUp": "设置",
+  "mfa.turnOn": "开启",
+  "mfa.turnOff": "关闭",
+  "mfa.confirmTurnOff": "要关闭双重身份验证吗？",
+
+  "recovery.title": "设置新密码",
+  "recovery.description": "保存后您将保持登录状态。",
+  "recovery.newPassword": "新密码",
+  "recovery.confirmPassword": "确认密码",
+  "recovery.tooShort": "请至少使用 {count} 个字符。",
+  "recovery.mismatch": "两次输入的密码不一致。",
+  "recovery.save": "保存密码",
+
+  "expected.title": "应到但未签到",
+  "expected.description": "根据学生名册，今天有课程安排。",
+  "expected.empty": "应到学生均已到达。",
+  "expected.flagged": "{count} 条记录与名册不符。",
+
+  "comparison.title": "中心对比",
+  "comparison.today": "今天",
+  "comparison.todayDescription": "各中心今天的到访。",
+  "comparison.rangeDescription": "各中心的到访。各中心的日期按其自身时区计算。",
+  "comparison.dates": "日期",
+
+  "closeDay.title": "关闭 {date}",
+  "closeDay.description": "{count} 条记录将移至历史记录，今天将从空白开始。",
+  "closeDay.open": "仍在签到中（{count}）",
+  "closeDay.noneOpen": "所有人均已离开。",
+  "closeDay.openWarning": "这些记录将在没有签退时间的情况下存档。",
+  "closeDay.failed": "未通知的家长（{count}）",
+  "closeDay.noneFailed": "所有家长均已收到通知或已联系。",
+  "closeDay.notSent": "未发送",
+  "closeDay.failedHint":
+    "如果已通过其他方式联系，请先在“通知”中将其标记为已联系。",
+  "closeDay.confirm": "我已核对上面的列表。",
+  "closeDay.closing": "正在关闭...",
+
+  "reopen.title": "重新打开或合并 {date}",
+  "reopen.description": "撤销过早关闭或日期错误的一天。",
+  "reopen.reopenOption": "重新打开：将其记录移回当天。",
+  "reopen.currentWarning": "它们将与已有的 {count} 条记录并列。",
+  "reopen.mergeOption": "合并：将其记录移至另一个存档日期。",
+  "reopen.mergeInto": "合并到",
+  "reopen.confirm": "{date} 将从历史记录中移除。",
+  "reopen.reopen": "重新打开",
+  "reopen.merge": "合并",
+
+  "dayActivity.entry": "{actor} {action} {date}，{time}",
+
+  "audit.title": "审计日志",
+  "audit.description": "谁修改、导出或登录，以及修改前后的值。",
+  "audit.exportCsv": "导出 CSV",
+  "audit.userPlaceholder": "用户电子邮件...",
+  "audit.allStudents": "所有学生",
+  "audit.allActions": "所有操作",
+  "audit.time": "时间",
+  "audit.user": "用户",
+  "audit.action": "操作",
+  "audit.change": "更改",
+  "audit.field": "字段",
+  "audit.before": "之前",
+  "audit.after": "之后",
+  "audit.empty": "没有符合这些筛选条件的事件。",
+
+  "auditAction.recordUpdate": "记录已编辑",
+  "auditAction.recordScan": "签到站扫描",
+  "auditAction.notificationUpdate": "通知跟进",
+  "auditAction.dateArchive": "已关闭当天",
+  "auditAction.dateReopen": "日期已重新打开",
+  "auditAction.dateMerge": "日期已合并",
+  "auditAction.accountRole": "角色已更改",
+  "auditAction.studentCreate": "已添加学生",
+  "auditAction.studentUpdate": "已编辑学生",
+  "auditAction.studentDelete": "已移除学生",
+  "auditAction.digestSettings": "摘要设置",
+  "auditAction.digestSend": "摘要已发送",
+  "auditAction.kioskCreate": "展示屏已配对",
+  "auditAction.kioskRevoke": "展示屏已撤销",
+  "auditAction.export": "导出",
+  "auditAction.signIn": "登录",
+  "auditAction.signOut": "退出登录",
+
+  "kioskDevices.title": "大厅展示屏",
+  "kioskDevices.description":
+    "只读的“谁在这里”屏幕。每个展示屏都有自己的令牌，只能看到当前在场学生的姓名和签到时间。",
+  "kioskDevices.name": "展示屏名称",
+  "kioskDevices.namePlaceholder": "展示屏名称，例如：前厅",
+  "kioskDevices.add": "添加展示屏",
+  "kioskDevices.pairingLink": "请在展示屏上打开此链接。该链接不会再次显示。",
+  "kioskDevices.copy": "复制",
+  "kioskDevices.lastSeen": "上次在线：{time}",
+  "kioskDevices.notSeen": "尚未上线",
+  "kioskDevices.unpair": "取消配对",
+  "kioskDevices.confirmUnpair": "取消配对 {label}？它将停止更新。",
+  "kioskDevices.empty": "没有已配对的展示屏。",
+
+  "station.description": "扫描学生的二维码卡为其签到；如已在场则为其签退。",
+  "station.useCamera": "使用摄像头",
+  "station.stopCamera": "停止摄像头",
+  "station.code": "学生代码",
+  "station.codePlaceholder": "扫描或输入学生编号，然后按 Enter",
+  "station.cameraOff": "摄像头已关闭",
+  "station.cameraUnsupported": "此浏览器无法读取二维码，请使用 USB 扫描器。",
+  "station.cameraStarting": "正在启动摄像头...",
+  "station.cameraScanning": "正在扫描",
+  "station.cameraError": "摄像头不可用",
+  "station.unreadable": "无法识别的代码",
+  "station.unknownStudent": "未知学生",
+  "station.notOnRoster": "名册中没有编号为 {id} 的学生。",
+  "station.student": "学生 {id}",
+  "station.alreadyScanned": "刚刚已扫描过。",
+  "station.savedOffline": "已离线保存，恢复联网后将同步。",
+  "station.recentTitle": "最近扫描",
+  "station.recentDescription": "几秒内的重复扫描将被忽略。",
+  "station.noScans": "尚无扫描记录。",
+
+  "analytics.saveImage": "保存图片",
+  "analytics.basedOn": "基于 {days} 天内的 {records} 条存档记录。",
+  "analytics.weeklyTitle": "每周考勤",
+  "analytics.weeklyDescription": "每周到访次数和不同学生人数。",
+  "analytics.heatmapTitle": "签到热力图",
+  "analytics.heatmapDescription": "按星期和小时统计的签到（中心时间）。",
+  "analytics.hour": "小时",
+  "analytics.day": "星期",
+  "analytics.checkIns": "签到",
+  "analytics.deliveryTitle": "通知送达",
+  "analytics.deliveryDescription": "按通知结果划分的每周到访占比。",
+  "analytics.delivered": "已送达",
+  "analytics.notDelivered": "未送达",
+  "analytics.churnTitle": "流失风险",
+  "analytics.churnDescription":
+    "最近 {weeks} 周到访次数不到此前 {weeks} 周一半的学生。",
+  "analytics.before": "之前",
+  "analytics.recent": "最近",
+  "analytics.lastVisit": "最近到访",
+  "analytics.noChurn": "没有到访减少的学生。",
+
+  "pdf.title": "考勤报告",
+  "pdf.today": "今天",
+  "pdf.visits": "访问次数：{count}",
+  "pdf.students": "学生：{count}",
+  "pdf.hours": "小时：{hours}",
+  "pdf.notified": "已通知家长：{percent}%",
+
+  "digestMail.title": "考勤摘要",
+  "digestMail.subject": "{date} 考勤摘要",
+  "digestMail.timeSpent": "停留时间（分钟）",
+  "digestMail.stillIn": "仍在签到中（{count}）",
+  "digestMail.allOut": "所有人都已签退。",
+  "digestMail.failures": "通知失败（{count}）",
+  "digestMail.allNotified": "所有家长均已收到通知。",
+  "digestMail.reason": "原因",
+  "digestMail.notSent": "未发送",
+
+  "chartImage.noChart": "还没有可导出的图表。",
+  "chartImage.noCanvas": "画布不可用。",
+  "chartImage.failed": "无法生成图片。",
+};
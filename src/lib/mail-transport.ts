@@ -0,0 +1,36 @@
+import type { ApiClient } from "@/lib/api";
+import { downloadBlob } from "@/lib/export";
+import type { DigestTransport } from "@/lib/types";
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  html: string;
+};
+
+/** Delivers a rendered message; `date` is the attendance day it covers. */
+export type MailTransport = {
+  send: (date: string, message: MailMessage) => Promise<void>;
+};
+
+/** Hands a test message to the server's mailer. */
+export function apiTransport(api: ApiClient): MailTransport {
+  return { send: (date, message) => api.sendTestDigest(date, message) };
+}
+
+/** Saves the message as an HTML file so digests can be checked without SMTP. */
+export const fileTransport: MailTransport = {
+  send: async (date, message) => {
+    const header = `<!--\nTo: ${message.to.join(", ")}\nSubject: ${
+      message.subject
+    }\n-->\n`;
+    downloadBlob(
+      new Blob([header, message.html], { type: "text/html;charset=utf-8;" }),
+      `digest_${date}.html`
+    );
+  },
+};
+
+export function createTransport(kind: DigestTransport, api: ApiClient) {
+  return kind === "file" ? fileTransport : apiTransport(api);
+}
@@ -0,0 +1,73 @@
+import type { QueuedWrite, ResponseCache, WriteQueue } from "@/lib/api";
+
+const DB_NAME = "kumi-dashboard";
+const DB_VERSION = 2;
+const RESPONSES = "responses";
+const QUEUE = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(QUEUE, { keyPath: "id", autoIncrement: true });
+      } else {
+        // Version 1 keyed responses by path alone, shared between accounts.
+        db.deleteObjectStore(RESPONSES);
+      }
+      db.createObjectStore(RESPONSES, { keyPath: ["accountId", "path"] });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const responseCache: ResponseCache = {
+  get: (accountId, path) =>
+    run(RESPONSES, "readonly", (store) => store.get([accountId, path])),
+  put: async (accountId, path, body) => {
+    await run(RESPONSES, "readwrite", (store) =>
+      store.put({ accountId, path, body, savedAt: Date.now() })
+    );
+  },
+};
+
+export const writeQueue: WriteQueue = {
+  enqueue: async (write) => {
+    await run(QUEUE, "readwrite", (store) => store.add(write));
+  },
+  list: () =>
+    run<QueuedWrite[]>(QUEUE, "readonly", (store) => store.getAll()),
+  remove: async (id) => {
+    await run(QUEUE, "readwrite", (store) => store.delete(id));
+  },
+};
+
+/**
+ * Drops cached responses, e.g. on sign-out. Queued writes are kept: each is
+ * tagged with its account and replays when that account signs in again.
+ */
+export async function clearResponseCache() {
+  await run(RESPONSES, "readwrite", (store) => store.clear());
+}
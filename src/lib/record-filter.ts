@@ -0,0 +1,99 @@
+import { isNotified, toCentreTime } from "@/lib/attendance";
+import { recordMinutes } from "@/lib/duration";
+import type { AttendanceRecord } from "@/lib/types";
+
+/** Matches records with no failure reason in the `failedReason` filter. */
+export const NO_FAILED_REASON = "none";
+
+export type RecordFilter = {
+  search: string;
+  /** `all`, `checked_in` or `checked_out`. */
+  status: string;
+  /** `all`, `yes` or `no`. */
+  notified: string;
+  /** `all`, {@link NO_FAILED_REASON} or an exact reason. */
+  failedReason: string;
+  minMinutes: number | null;
+  maxMinutes: number | null;
+  /** `HH:MM` bounds on the centre-time check-in, inclusive. */
+  checkinFrom: string | null;
+  checkinTo: string | null;
+};
+
+export const EMPTY_FILTER: RecordFilter = {
+  search: "",
+  status: "all",
+  notified: "all",
+  failedReason: "all",
+  minMinutes: null,
+  maxMinutes: null,
+  checkinFrom: null,
+  checkinTo: null,
+};
+
+export function isFilterActive(filter: RecordFilter) {
+  return (Object.keys(EMPTY_FILTER) as (keyof RecordFilter)[]).some(
+    (key) => filter[key] !== EMPTY_FILTER[key]
+  );
+}
+
+function matches(
+  row: AttendanceRecord,
+  filter: RecordFilter,
+  timeZone: string
+) {
+  if (
+    filter.search &&
+    !row.student_name.toLowerCase().includes(filter.search.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filter.status !== "all" && row.status !== filter.status) return false;
+
+  if (filter.notified !== "all") {
+    const notified = isNotified(row.parent_notified);
+    if (notified !== (filter.notified === "yes")) return false;
+  }
+
+  if (filter.failedReason !== "all") {
+    const reason = row.failed_reason || NO_FAILED_REASON;
+    if (reason !== filter.failedReason) return false;
+  }
+
+  const { minMinutes, maxMinutes } = filter;
+  if (minMinutes !== null || maxMinutes !== null) {
+    const minutes = recordMinutes(row);
+    if (minutes === null) return false;
+    if (minMinutes !== null && minutes < minMinutes) return false;
+    if (maxMinutes !== null && minutes > maxMinutes) return false;
+  }
+
+  if (filter.checkinFrom || filter.checkinTo) {
+    const time = toCentreTime(row.checkin_time, timeZone);
+    if (!time) return false;
+    if (filter.checkinFrom && time < filter.checkinFrom) return false;
+    if (filter.checkinTo && time > filter.checkinTo) return false;
+  }
+
+  return true;
+}
+
+/** `timeZone` is the centre's; check-in time filters are in centre time. */
+export function filterRecords(
+  records: AttendanceRecord[],
+  filter: RecordFilter,
+  timeZone: string
+) {
+  if (!isFilterActive(filter)) return records;
+  return records.filter((row) => matches(row, filter, timeZone));
+}
+
+export function failedReasons(records: AttendanceRecord[]) {
+  return [
+    ...new Set(
+      records
+        .map((row) => row.failed_reason)
+        .filter((reason): reason is string => !!reason)
+    ),
+  ].sort();
+}
@@ -0,0 +1,82 @@
+import type { User } from "@supabase/supabase-js";
+
+import type { MessageKey } from "@/lib/i18n";
+
+export const ROLES = ["owner", "instructor", "front_desk"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "view_history"
+  | "view_failure_reasons"
+  | "triage_notifications"
+  | "correct_records"
+  | "export"
+  | "manage_accounts"
+  | "manage_students"
+  | "configure_digest"
+  | "compare_centres"
+  | "archive_days"
+  | "view_analytics"
+  | "view_audit"
+  | "manage_kiosks"
+  | "run_station";
+
+const rolePermissions: Record<Role, Permission[]> = {
+  owner: [
+    "view_history",
+    "view_failure_reasons",
+    "triage_notifications",
+    "correct_records",
+    "export",
+    "manage_accounts",
+    "manage_students",
+    "configure_digest",
+    "compare_centres",
+    "archive_days",
+    "view_analytics",
+    "view_audit",
+    "manage_kiosks",
+    "run_station",
+  ],
+  instructor: [
+    "view_history",
+    "view_failure_reasons",
+    "triage_notifications",
+    "correct_records",
+    "manage_students",
+    "run_station",
+  ],
+  front_desk: ["run_station"],
+};
+
+export const roleLabels: Record<Role, MessageKey> = {
+  owner: "role.owner",
+  instructor: "role.instructor",
+  front_desk: "role.frontDesk",
+};
+
+/** Minutes without input before signing out; `null` stays signed in. */
+export const idleTimeoutMinutes: Record<Role, number | null> = {
+  owner: null,
+  instructor: null,
+  front_desk: 10,
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Reads the role from `app_metadata`, which only the server can write.
+ * `user_metadata` is never consulted since users can edit it themselves.
+ * Unknown or missing roles get front-desk access.
+ */
+export function roleFromUser(user: User | null | undefined): Role {
+  const role = user?.app_metadata?.role;
+  return isRole(role) ? role : "front_desk";
+}
+
+export function can(role: Role, permission: Permission) {
+  return rolePermissions[role].includes(permission);
+}
@@ -0,0 +1,48 @@
+import { dayOfWeek } from "@/lib/date-range";
+import type { AttendanceRecord, Student } from "@/lib/types";
+
+export type RosterFlag =
+  | { kind: "unknown" }
+  | { kind: "name-mismatch"; rosterName: string };
+
+function normalizeName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function isScheduledOn(student: Student, date: string) {
+  return student.scheduled_days.includes(dayOfWeek(date));
+}
+
+/** Students scheduled for `date` who have no record in `records`. */
+export function expectedButAbsent(
+  students: Student[],
+  records: AttendanceRecord[],
+  date: string
+) {
+  const present = new Set(records.map((row) => row.student_id));
+  return students
+    .filter((student) => isScheduledOn(student, date))
+    .filter((student) => !present.has(student.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Flags records whose `student_id` is not on the roster or whose
+ * `student_name` differs from the roster name, keyed by record id.
+ */
+export function rosterFlags(students: Student[], records: AttendanceRecord[]) {
+  const byId = new Map(students.map((student) => [student.id, student]));
+  const flags = new Map<number, RosterFlag>();
+  if (!students.length) return flags;
+  records.forEach((row) => {
+    const student = byId.get(row.student_id);
+    if (!student) {
+      flags.set(row.id, { kind: "unknown" });
+    } else if (
+      normalizeName(student.name) !== normalizeName(row.student_name)
+    ) {
+      flags.set(row.id, { kind: "name-mismatch", rosterName: student.name });
+    }
+  });
+  return flags;
+}
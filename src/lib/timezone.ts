@@ -0,0 +1,56 @@
+export const DEFAULT_TIME_ZONE = "Asia/Singapore";
+
+/**
+ * A centre's time zone, or the default when it's missing or unknown. Dates
+ * and times across the dashboard are shown in centre time, not the browser's.
+ */
+export function resolveTimeZone(timeZone: string | null | undefined) {
+  return timeZone && isTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+export function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes `timeZone` is ahead of UTC at `time`. */
+function offsetMinutes(time: number, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(time))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((wallClock - time) / 60000);
+}
+
+/** Converts a `YYYY-MM-DD` date and `HH:MM` wall time in `timeZone` to ISO. */
+export function zonedTimeToIso(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  // A second pass settles times near a daylight-saving change.
+  const first = guess - offsetMinutes(guess, timeZone) * 60000;
+  const second = guess - offsetMinutes(first, timeZone) * 60000;
+  return new Date(second).toISOString();
+}
@@ -0,0 +1,92 @@
+import type { Role } from "@/lib/roles";
+
+export type AttendanceRecord = {
+  id: number;
+  student_id: number;
+  student_name: string;
+  status: string;
+  parent_notified: string | null;
+  failed_reason?: string | null;
+  checkin_time: string | null;
+  checkout_time: string | null;
+  time_spent: string | number | null;
+  date: string | null;
+};
+
+export type AttendanceDate = {
+  id: number;
+  date: string;
+  created_at: string;
+};
+
+export type AuditEntry = {
+  id: number;
+  record_id: number | null;
+  action: string;
+  actor: string;
+  created_at: string;
+};
+
+/** One row of the audit log; `before`/`after` are the JSON values sent. */
+export type AuditEvent = {
+  id: number;
+  action: string;
+  actor: string;
+  student_id: number | null;
+  student_name: string | null;
+  before: unknown;
+  after: unknown;
+  created_at: string;
+};
+
+export type NotificationAction = "resend" | "contacted_manually";
+
+export type RecordChanges = Partial<
+  Pick<
+    AttendanceRecord,
+    "status" | "checkin_time" | "checkout_time" | "time_spent"
+  >
+>;
+
+export type Account = {
+  id: string;
+  email: string;
+  role: Role;
+};
+
+/** A paired lobby display; its token is only shown once, at creation. */
+export type KioskDevice = {
+  id: string;
+  label: string;
+  created_at: string;
+  last_seen_at: string | null;
+};
+
+export type Centre = {
+  id: string;
+  name: string;
+  /** IANA zone, e.g. `Asia/Singapore`. */
+  time_zone: string;
+};
+
+export type Student = {
+  id: number;
+  name: string;
+  /** Days of the week the student attends, 0 = Sunday. */
+  scheduled_days: number[];
+};
+
+export type StudentInput = Omit<Student, "id">;
+
+/**
+ * How a test copy is delivered. Scheduled digests are always emailed by the
+ * server, so this is never part of the saved settings.
+ */
+export type DigestTransport = "email" | "file";
+
+export type DigestSettings = {
+  enabled: boolean;
+  recipients: string[];
+  /** `HH:MM` in centre time. */
+  send_time: string;
+};
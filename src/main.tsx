@@ -2,9 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { KioskDisplay } from './components/kiosk-display.tsx'
+import { isKioskRoute } from './lib/kiosk.ts'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isKioskRoute() ? <KioskDisplay /> : <App />}
   </StrictMode>,
 )
+
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+  })
+}